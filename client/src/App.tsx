@@ -12,9 +12,14 @@ import Customers from "@/pages/customers";
 import CustomerMetrics from "@/pages/customers/metrics";
 import Branches from "@/pages/branches";
 import StaffPage from "@/pages/staff";
+import PassInspector from "@/pages/pass-inspector";
+import DeviceLogs from "@/pages/device-logs";
+import PushMonitoring from "@/pages/push-monitoring";
+import WalletCertificate from "@/pages/wallet-certificate";
 import AuthPage from "@/pages/auth";
 import OnboardingPage from "@/pages/onboarding";
 import JoinPage from "@/pages/join";
+import WebPassPage from "@/pages/web-pass";
 import NotFound from "@/pages/not-found";
 import { Loader2 } from "lucide-react";
 
@@ -26,6 +31,10 @@ function DashboardRouter() {
       <Route path="/customers" component={Customers} />
       <Route path="/customers/metrics" component={CustomerMetrics} />
       <Route path="/branches" component={Branches} />
+      <Route path="/pass-inspector" component={PassInspector} />
+      <Route path="/device-logs" component={DeviceLogs} />
+      <Route path="/push-monitoring" component={PushMonitoring} />
+      <Route path="/wallet-certificate" component={WalletCertificate} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -61,6 +70,7 @@ function AppRoutes() {
       <Route path="/pricing" component={Landing} />
       <Route path="/auth" component={AuthPage} />
       <Route path="/join/:cardId" component={JoinPage} />
+      <Route path="/p/:serialNumber" component={WebPassPage} />
       <ProtectedRoute path="/onboarding" component={OnboardingPage} />
       <Route path="/staff" component={StaffPage} />
       <ProtectedRoute path="/dashboard" component={ProtectedDashboard} />
@@ -68,6 +78,10 @@ function AppRoutes() {
       <ProtectedRoute path="/customers" component={ProtectedDashboard} />
       <ProtectedRoute path="/customers/metrics" component={ProtectedDashboard} />
       <ProtectedRoute path="/branches" component={ProtectedDashboard} />
+      <ProtectedRoute path="/pass-inspector" component={ProtectedDashboard} />
+      <ProtectedRoute path="/device-logs" component={ProtectedDashboard} />
+      <ProtectedRoute path="/push-monitoring" component={ProtectedDashboard} />
+      <ProtectedRoute path="/wallet-certificate" component={ProtectedDashboard} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -1,13 +1,14 @@
 import { useState } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent } from "@/components/ui/card";
 import { CardPreview } from "./CardPreview";
 import { WalletPreview } from "./WalletPreview";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Save, Wallet, CreditCard, Check, Sparkles, Stamp, Star, Users } from "lucide-react";
+import { ArrowLeft, Save, Wallet, CreditCard, Check, Sparkles, Stamp, Star, Users, Coffee, PawPrint, Upload, Image as ImageIcon } from "lucide-react";
 import {
   Tabs,
   TabsContent,
@@ -22,8 +23,13 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
-import type { LoyaltyCard } from "@db/schema";
+import type { LoyaltyCard, CardTranslation, Branch, BarcodeFormat } from "@db/schema";
+import type { StampIcon } from "@db/stampStrip";
+import { DEFAULT_FIELD_LAYOUT, upgradeFieldLayout } from "@db/fieldLayout";
+import { FieldLayoutEditor } from "./FieldLayoutEditor";
+import { PassRolloutStatus, rolloutQueryKey } from "./PassRolloutStatus";
 
 const TEMPLATES = [
   {
@@ -164,6 +170,14 @@ const LOYALTY_TYPES = [
   },
 ];
 
+const STAMP_ICON_OPTIONS: Array<{ id: StampIcon; name: string; icon: typeof Check }> = [
+  { id: 'check', name: 'Check', icon: Check },
+  { id: 'coffee', name: 'Coffee Cup', icon: Coffee },
+  { id: 'star', name: 'Star', icon: Star },
+  { id: 'paw', name: 'Paw', icon: PawPrint },
+  { id: 'custom', name: 'Upload', icon: Upload },
+];
+
 interface CardDesignerProps {
   initialCard?: LoyaltyCard;
   onClose: () => void;
@@ -191,6 +205,25 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
       pointsPerCurrency: (initialCard?.design as any)?.pointsPerCurrency || 1,
       rewardThreshold: (initialCard?.design as any)?.rewardThreshold || 100,
       rewardDescription: (initialCard?.design as any)?.rewardDescription || "",
+      stampIcon: (initialCard?.design?.stampIcon || "check") as StampIcon,
+      stampGlyph: initialCard?.design?.stampGlyph || "",
+      // Shows fields added since the layout was saved, so saving keeps them unless removed
+      fieldLayout: upgradeFieldLayout(initialCard?.design?.fieldLayout || DEFAULT_FIELD_LAYOUT),
+      branchIds: initialCard?.design?.branchIds as number[] | undefined,
+      barcodeFormat: (initialCard?.design?.barcodeFormat || "qr") as BarcodeFormat,
+      showMemberNumber: initialCard?.design?.showMemberNumber ?? true,
+      rotatingCode: {
+        enabled: initialCard?.design?.rotatingCode?.enabled || false,
+        periodSeconds: initialCard?.design?.rotatingCode?.periodSeconds || 60,
+      },
+      translations: {
+        ar: {
+          name: initialCard?.design?.translations?.ar?.name || "",
+          rewardDescription: initialCard?.design?.translations?.ar?.rewardDescription || "",
+          terms: initialCard?.design?.translations?.ar?.terms || "",
+          changeMessages: initialCard?.design?.translations?.ar?.changeMessages || {},
+        },
+      },
       formTemplate: (initialCard?.design as any)?.formTemplate || {
         welcomeTitle: '',
         welcomeSubtitle: 'Digital Loyalty Program',
@@ -201,6 +234,45 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
     }
   });
 
+  const { data: branches } = useQuery<Branch[]>({
+    queryKey: ["/api/branches"],
+  });
+
+  const toggleBranch = (branchId: number, checked: boolean) => {
+    setFormData(prev => {
+      const current = prev.design.branchIds || [];
+      return {
+        ...prev,
+        design: {
+          ...prev.design,
+          branchIds: checked ? [...current, branchId] : current.filter(id => id !== branchId)
+        }
+      };
+    });
+  };
+
+  const updateArabic = (changes: Partial<CardTranslation>) => {
+    setFormData(prev => ({
+      ...prev,
+      design: {
+        ...prev.design,
+        translations: { ...prev.design.translations, ar: { ...prev.design.translations.ar, ...changes } }
+      }
+    }));
+  };
+
+  // Built-in change messages are translated automatically; custom ones need an Arabic version
+  const layoutFields = formData.design.fieldLayout;
+  const customChangeMessages = [
+    ...layoutFields.primaryFields,
+    ...layoutFields.secondaryFields,
+    ...layoutFields.auxiliaryFields,
+    ...layoutFields.backFields,
+  ].filter(field => field.changeMessage && field.changeMessage !== '%@');
+
+  // Show a card part-way through so the filled and empty stamp styles are both visible
+  const sampleStamps = Math.floor((formData.design.maxStamps || 10) / 3);
+
   const applyTemplate = (templateId: string) => {
     const template = TEMPLATES.find(t => t.id === templateId);
     if (template) {
@@ -220,7 +292,7 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
     }
   };
 
-  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImageUpload = (field: 'logo' | 'stampGlyph') => (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
@@ -248,7 +320,7 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
       if (typeof result === 'string') {
         setFormData(prev => ({
           ...prev,
-          design: { ...prev.design, logo: result }
+          design: { ...prev.design, [field]: result }
         }));
       }
     };
@@ -281,6 +353,10 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/cards'] });
+      if (initialCard) {
+        // Saving starts pushing the change to installed passes
+        queryClient.invalidateQueries({ queryKey: rolloutQueryKey(initialCard.id) });
+      }
       toast({
         title: "Success",
         description: `Card ${initialCard ? 'updated' : 'created'} successfully`,
@@ -354,6 +430,12 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
         </h2>
       </div>
 
+      {initialCard && (
+        <div className="max-w-md mb-6">
+          <PassRolloutStatus cardId={initialCard.id} />
+        </div>
+      )}
+
       <div className="grid gap-8 lg:grid-cols-[1fr,400px]">
         <div className="space-y-6 pb-8">
           {!initialCard && (
@@ -464,7 +546,7 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
                   id="logo"
                   type="file"
                   accept="image/*"
-                  onChange={handleLogoUpload}
+                  onChange={handleImageUpload('logo')}
                   disabled={isLoading}
                   className="h-12"
                 />
@@ -500,6 +582,56 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
                 </div>
               )}
 
+              {formData.design.loyaltyType === 'stamps' && (
+                <div className="space-y-2">
+                  <Label className="text-base font-semibold">Stamp Icon</Label>
+                  <div className="grid grid-cols-5 gap-2">
+                    {STAMP_ICON_OPTIONS.map((option) => {
+                      const Icon = option.icon;
+                      const selected = formData.design.stampIcon === option.id;
+                      return (
+                        <button
+                          key={option.id}
+                          type="button"
+                          className={`p-3 rounded-lg border-2 flex flex-col items-center gap-1 transition-all ${
+                            selected ? 'border-primary bg-primary/5' : 'border-muted hover:border-primary/50'
+                          }`}
+                          onClick={() => setFormData(prev => ({
+                            ...prev,
+                            design: { ...prev.design, stampIcon: option.id }
+                          }))}
+                        >
+                          <Icon className="h-5 w-5" />
+                          <span className="text-xs">{option.name}</span>
+                        </button>
+                      );
+                    })}
+                  </div>
+                  {formData.design.stampIcon === 'custom' && (
+                    <div className="flex items-center gap-3">
+                      <Input
+                        id="stampGlyph"
+                        type="file"
+                        accept="image/*"
+                        onChange={handleImageUpload('stampGlyph')}
+                        disabled={isLoading}
+                        className="h-12"
+                      />
+                      {formData.design.stampGlyph && (
+                        <img
+                          src={formData.design.stampGlyph}
+                          alt="Stamp icon preview"
+                          className="w-10 h-10 object-contain border rounded"
+                        />
+                      )}
+                    </div>
+                  )}
+                  <p className="text-sm text-muted-foreground">
+                    Shown in each stamp slot on the pass. A square PNG with a transparent background works best.
+                  </p>
+                </div>
+              )}
+
               {formData.design.loyaltyType === 'points' && (
                 <div className="space-y-4">
                   <div className="space-y-2">
@@ -707,6 +839,224 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
             </CardContent>
           </Card>
 
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <h3 className="text-lg font-semibold">Branches</h3>
+              <p className="text-sm text-muted-foreground">
+                The pass appears on members' lock screens near these branches (when they have coordinates set).
+              </p>
+
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <Label htmlFor="allBranches" className="font-medium">Valid at All Branches</Label>
+                  <p className="text-sm text-muted-foreground mt-1">Includes branches added later</p>
+                </div>
+                <Switch
+                  id="allBranches"
+                  checked={!formData.design.branchIds}
+                  onCheckedChange={(checked) => setFormData(prev => ({
+                    ...prev,
+                    design: { ...prev.design, branchIds: checked ? undefined : (branches || []).map(branch => branch.id) }
+                  }))}
+                />
+              </div>
+
+              {formData.design.branchIds && (
+                <div className="space-y-3">
+                  {branches?.length ? branches.map((branch) => (
+                    <div key={branch.id} className="flex items-center gap-3">
+                      <Checkbox
+                        id={`branch-${branch.id}`}
+                        checked={formData.design.branchIds!.includes(branch.id)}
+                        onCheckedChange={(checked) => toggleBranch(branch.id, checked === true)}
+                      />
+                      <Label htmlFor={`branch-${branch.id}`} className="font-normal">
+                        {branch.name}
+                        <span className="text-muted-foreground"> - {branch.address}</span>
+                      </Label>
+                    </div>
+                  )) : (
+                    <p className="text-sm text-muted-foreground italic">No branches yet</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <h3 className="text-lg font-semibold">Barcode</h3>
+
+              <div className="space-y-2">
+                <Label htmlFor="barcodeFormat">Barcode Format</Label>
+                <Select
+                  value={formData.design.barcodeFormat}
+                  onValueChange={(value) => setFormData(prev => ({
+                    ...prev,
+                    design: { ...prev.design, barcodeFormat: value as BarcodeFormat }
+                  }))}
+                >
+                  <SelectTrigger id="barcodeFormat" className="h-12">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="qr">QR Code</SelectItem>
+                    <SelectItem value="pdf417">PDF417</SelectItem>
+                    <SelectItem value="aztec">Aztec</SelectItem>
+                    <SelectItem value="code128">Code 128</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Pick what your POS scanners can read. Apple Watch shows a QR code for Code 128 passes.
+                </p>
+              </div>
+
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <Label htmlFor="showMemberNumber" className="font-medium">Show Member Number</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Printed under the barcode so staff can type it in if the code won't scan
+                  </p>
+                </div>
+                <Switch
+                  id="showMemberNumber"
+                  checked={formData.design.showMemberNumber}
+                  onCheckedChange={(checked) => setFormData(prev => ({
+                    ...prev,
+                    design: { ...prev.design, showMemberNumber: checked }
+                  }))}
+                />
+              </div>
+
+              <div className="flex items-center justify-between p-4 border rounded-lg">
+                <div>
+                  <Label htmlFor="rotatingCode" className="font-medium">Rotating Code</Label>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    The barcode changes over time, so screenshots and printouts can't be scanned.
+                    Passes in Wallet update to the new code on their own.
+                  </p>
+                </div>
+                <Switch
+                  id="rotatingCode"
+                  checked={formData.design.rotatingCode.enabled}
+                  onCheckedChange={(checked) => setFormData(prev => ({
+                    ...prev,
+                    design: { ...prev.design, rotatingCode: { ...prev.design.rotatingCode, enabled: checked } }
+                  }))}
+                />
+              </div>
+
+              {formData.design.rotatingCode.enabled && (
+                <div className="space-y-2">
+                  <Label htmlFor="rotatingCodePeriod">Code Changes Every</Label>
+                  <Select
+                    value={formData.design.rotatingCode.periodSeconds.toString()}
+                    onValueChange={(value) => setFormData(prev => ({
+                      ...prev,
+                      design: { ...prev.design, rotatingCode: { ...prev.design.rotatingCode, periodSeconds: parseInt(value) } }
+                    }))}
+                  >
+                    <SelectTrigger id="rotatingCodePeriod" className="h-12">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="30">30 seconds</SelectItem>
+                      <SelectItem value="60">1 minute</SelectItem>
+                      <SelectItem value="300">5 minutes</SelectItem>
+                      <SelectItem value="900">15 minutes</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Staff can scan a code for up to twice this long. Apple Wallet passes get a push each time the code changes, so shorter periods mean more pushes.
+                  </p>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <h3 className="text-lg font-semibold">Pass Fields</h3>
+              <p className="text-sm text-muted-foreground">
+                Choose what appears on the front and back of the Wallet pass.
+              </p>
+              <FieldLayoutEditor
+                layout={formData.design.fieldLayout}
+                onChange={(fieldLayout) => setFormData(prev => ({
+                  ...prev,
+                  design: { ...prev.design, fieldLayout }
+                }))}
+              />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardContent className="p-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <h3 className="text-lg font-semibold">Arabic Translation</h3>
+                <Badge variant="outline">العربية</Badge>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                iPhones set to Arabic show these instead of the English text. Leave a field empty to keep the English version.
+              </p>
+
+              <div className="space-y-2">
+                <Label htmlFor="arabicName" className="text-base font-semibold">Card Name (Arabic)</Label>
+                <Input
+                  id="arabicName"
+                  dir="rtl"
+                  value={formData.design.translations.ar.name}
+                  onChange={(e) => updateArabic({ name: e.target.value })}
+                  placeholder="مثال: بطاقة الأعضاء"
+                  className="h-12"
+                />
+              </div>
+
+              {formData.design.loyaltyType !== 'membership' && (
+                <div className="space-y-2">
+                  <Label htmlFor="arabicRewardDescription" className="text-base font-semibold">Reward Description (Arabic)</Label>
+                  <Input
+                    id="arabicRewardDescription"
+                    dir="rtl"
+                    value={formData.design.translations.ar.rewardDescription}
+                    onChange={(e) => updateArabic({ rewardDescription: e.target.value })}
+                    placeholder="مثال: قهوة مجانية بعد ١٠ أختام"
+                    className="h-12"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="arabicTerms" className="text-base font-semibold">Terms and Conditions (Arabic)</Label>
+                <Textarea
+                  id="arabicTerms"
+                  dir="rtl"
+                  value={formData.design.translations.ar.terms}
+                  onChange={(e) => updateArabic({ terms: e.target.value })}
+                  rows={4}
+                />
+              </div>
+
+              {customChangeMessages.map((field) => (
+                <div key={field.key} className="space-y-2">
+                  <Label htmlFor={`arabicChange-${field.key}`} className="text-base font-semibold">
+                    Notification (Arabic): {field.changeMessage}
+                  </Label>
+                  <Input
+                    id={`arabicChange-${field.key}`}
+                    dir="rtl"
+                    value={formData.design.translations.ar.changeMessages[field.key] || ""}
+                    onChange={(e) => updateArabic({
+                      changeMessages: { ...formData.design.translations.ar.changeMessages, [field.key]: e.target.value },
+                    })}
+                    placeholder="%@"
+                    className="h-12"
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardContent className="p-6 space-y-6">
               <div className="flex items-center justify-between">
@@ -826,6 +1176,16 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
                 Generate Wallet Pass
               </Button>
             )}
+
+            {/* Rendered by the server from the saved card, like the pass itself */}
+            {initialCard && (
+              <Button className="flex-1 h-12" variant="outline" asChild>
+                <a href={`/api/cards/${initialCard.id}/preview.png?balance=${sampleStamps}&scale=3`} target="_blank" rel="noreferrer">
+                  <ImageIcon className="mr-2 h-4 w-4" />
+                  Pass Image
+                </a>
+              </Button>
+            )}
           </div>
         </div>
 
@@ -846,12 +1206,14 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
                 <CardPreview
                   design={{ ...formData.design, name: formData.name }}
                   cardId={initialCard?.id}
+                  filledStamps={sampleStamps}
                 />
               </TabsContent>
               <TabsContent value="wallet">
                 <WalletPreview
                   design={{ ...formData.design, name: formData.name }}
                   cardId={initialCard?.id}
+                  filledStamps={sampleStamps}
                 />
               </TabsContent>
             </Tabs>
@@ -868,12 +1230,14 @@ export default function CardDesigner({ initialCard, onClose }: CardDesignerProps
               <CardPreview
                 design={{ ...formData.design, name: formData.name }}
                 cardId={initialCard?.id}
+                filledStamps={sampleStamps}
               />
             </TabsContent>
             <TabsContent value="wallet" className="max-h-[200px] overflow-auto">
               <WalletPreview
                 design={{ ...formData.design, name: formData.name }}
                 cardId={initialCard?.id}
+                filledStamps={sampleStamps}
               />
             </TabsContent>
           </Tabs>
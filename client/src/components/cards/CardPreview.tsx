@@ -1,5 +1,7 @@
 import { Layout } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
+import type { StampIcon } from "@db/stampStrip";
+import { StampStrip } from "./StampStrip";
 
 interface CardDesign {
   name: string;
@@ -11,15 +13,20 @@ interface CardDesign {
   gradientColor?: string;
   textColor?: string;
   cardStyle?: string;
+  loyaltyType?: string;
+  maxStamps?: number;
+  stampIcon?: StampIcon;
+  stampGlyph?: string;
 }
 
 interface CardPreviewProps {
   design: CardDesign;
   customerId?: string;
   cardId?: number;
+  filledStamps?: number;
 }
 
-export function CardPreview({ design, customerId, cardId }: CardPreviewProps) {
+export function CardPreview({ design, customerId, cardId, filledStamps = 0 }: CardPreviewProps) {
   // Generate QR code value based on available IDs - points to customer enrollment page
   const qrValue = customerId 
     ? `https://${window.location.host}/join/${cardId}?customer=${customerId}`
@@ -76,14 +83,20 @@ export function CardPreview({ design, customerId, cardId }: CardPreviewProps) {
             <span className="font-bold text-lg">{design.name || "Card Name"}</span>
           </div>
 
-          <div className="flex-1 flex justify-center gap-4 my-6">
-            {Array.from({ length: design.stamps || 5 }).map((_, i) => (
-              <div
-                key={i}
-                className="w-10 h-10 rounded-full border-2"
-                style={{ borderColor: design.primaryColor }}
+          <div className="flex-1 flex items-center justify-center my-6">
+            {(design.loyaltyType || 'stamps') === 'stamps' && (
+              <StampStrip
+                maxStamps={design.maxStamps || design.stamps || 5}
+                filledStamps={filledStamps}
+                backgroundColor={design.backgroundColor}
+                gradientColor={design.gradientEnabled ? design.gradientColor : undefined}
+                primaryColor={design.primaryColor}
+                textColor={design.textColor || '#ffffff'}
+                icon={design.stampIcon}
+                glyph={design.stampGlyph}
+                className="w-full rounded-md"
               />
-            ))}
+            )}
           </div>
 
           <div className="flex items-center justify-center">
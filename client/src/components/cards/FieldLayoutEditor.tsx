@@ -0,0 +1,217 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, ArrowUp, ArrowDown } from "lucide-react";
+import { MAX_FRONT_ROW_FIELDS, type FieldLayout, type PassField } from "@db/fieldLayout";
+
+type Section = 'primaryFields' | 'secondaryFields' | 'auxiliaryFields' | 'backFields';
+
+const SECTIONS: Array<{ id: Section; name: string; description: string; max?: number }> = [
+  { id: 'primaryFields', name: 'Primary', description: 'Large text on the front of the pass', max: 1 },
+  { id: 'secondaryFields', name: 'Secondary', description: 'Row below the strip image, shared with auxiliary fields', max: MAX_FRONT_ROW_FIELDS },
+  { id: 'auxiliaryFields', name: 'Auxiliary', description: 'Smaller row below the secondary fields', max: MAX_FRONT_ROW_FIELDS },
+  { id: 'backFields', name: 'Back', description: 'Shown when the member taps the (i) button' },
+];
+
+const FIELD_SOURCES: Array<{ id: PassField['source']; name: string }> = [
+  { id: 'balance', name: 'Stamps / points balance' },
+  { id: 'memberName', name: 'Member name' },
+  { id: 'businessName', name: 'Business name' },
+  { id: 'memberSince', name: 'Member since' },
+  { id: 'visits', name: 'Total visits' },
+  { id: 'nextReward', name: 'Points to next reward' },
+  { id: 'rewardDescription', name: 'Reward description' },
+  { id: 'memberId', name: 'Member ID' },
+  { id: 'cardId', name: 'Card ID' },
+  { id: 'phone', name: 'Business phone' },
+  { id: 'address', name: 'Business address' },
+  { id: 'website', name: 'Business website' },
+  { id: 'locations', name: 'Branch addresses and hours' },
+  { id: 'terms', name: 'Terms and conditions' },
+  { id: 'lastReward', name: 'Date of latest reward' },
+  { id: 'static', name: 'Custom text' },
+];
+
+// Sources that notify the member by default ("You now have %@ stamps", "Reward unlocked!")
+const NOTIFYING_SOURCES: Array<PassField['source']> = ['balance', 'lastReward'];
+
+// An unset change message uses the source's default; an empty one keeps the update silent
+function notifiesOnChange(field: PassField): boolean {
+  return field.changeMessage !== undefined ? field.changeMessage !== '' : NOTIFYING_SOURCES.includes(field.source);
+}
+
+interface FieldLayoutEditorProps {
+  layout: FieldLayout;
+  onChange: (layout: FieldLayout) => void;
+}
+
+// Pass field keys must be unique across the whole pass
+function nextKey(layout: FieldLayout, source: string): string {
+  const used = new Set(SECTIONS.flatMap(section => layout[section.id].map(field => field.key)));
+  let key = source;
+  for (let i = 2; used.has(key); i++) {
+    key = `${source}${i}`;
+  }
+  return key;
+}
+
+export function FieldLayoutEditor({ layout, onChange }: FieldLayoutEditorProps) {
+  const updateSection = (section: Section, fields: PassField[]) => {
+    onChange({ ...layout, [section]: fields });
+  };
+
+  const updateField = (section: Section, index: number, changes: Partial<PassField>) => {
+    updateSection(section, layout[section].map((field, i) => i === index ? { ...field, ...changes } : field));
+  };
+
+  const moveField = (section: Section, index: number, direction: -1 | 1) => {
+    const fields = [...layout[section]];
+    const target = index + direction;
+    if (target < 0 || target >= fields.length) return;
+    [fields[index], fields[target]] = [fields[target], fields[index]];
+    updateSection(section, fields);
+  };
+
+  return (
+    <div className="space-y-6">
+      {SECTIONS.map((section) => {
+        const fields = layout[section.id];
+        // Secondary and auxiliary fields share the front rows of the pass
+        const frontRowFields = layout.secondaryFields.length + layout.auxiliaryFields.length;
+        const frontRowFull = (section.id === 'secondaryFields' || section.id === 'auxiliaryFields')
+          && frontRowFields >= MAX_FRONT_ROW_FIELDS;
+        const canAdd = (section.max === undefined || fields.length < section.max) && !frontRowFull;
+        return (
+          <div key={section.id} className="space-y-3">
+            <div className="flex items-center justify-between">
+              <div>
+                <Label className="font-semibold">{section.name} Fields</Label>
+                <p className="text-xs text-muted-foreground">
+                  {section.description}{section.max ? ` (max ${section.max})` : ''}
+                </p>
+              </div>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                disabled={!canAdd}
+                onClick={() => updateSection(section.id, [
+                  ...fields,
+                  { key: nextKey(layout, 'custom'), source: 'static', label: '', value: '' },
+                ])}
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add
+              </Button>
+            </div>
+
+            {fields.length === 0 && (
+              <p className="text-sm text-muted-foreground italic">No fields</p>
+            )}
+
+            {fields.map((field, index) => (
+              <div key={field.key} className="grid grid-cols-1 sm:grid-cols-[1fr,1fr,auto] gap-2 p-3 border rounded-lg">
+                <Select
+                  value={field.source}
+                  onValueChange={(value) => updateField(section.id, index, {
+                    source: value as PassField['source'],
+                    value: value === 'static' ? field.value : undefined,
+                  })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FIELD_SOURCES.map((source) => (
+                      <SelectItem key={source.id} value={source.id}>{source.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={field.label ?? ''}
+                  onChange={(e) => updateField(section.id, index, { label: e.target.value })}
+                  placeholder="Label (leave empty for default)"
+                />
+                <div className="flex gap-1">
+                  <Button type="button" variant="ghost" size="icon" onClick={() => moveField(section.id, index, -1)} disabled={index === 0}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="ghost" size="icon" onClick={() => moveField(section.id, index, 1)} disabled={index === fields.length - 1}>
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateSection(section.id, fields.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+                {field.source === 'static' && (
+                  <Input
+                    className="sm:col-span-3"
+                    value={field.value ?? ''}
+                    onChange={(e) => updateField(section.id, index, { value: e.target.value })}
+                    placeholder="Text to show"
+                  />
+                )}
+                <div className="sm:col-span-3 flex flex-col sm:flex-row sm:items-center gap-2">
+                  <div className="flex items-center gap-2 shrink-0">
+                    <Checkbox
+                      id={`notify-${field.key}`}
+                      checked={notifiesOnChange(field)}
+                      onCheckedChange={(checked) => updateField(section.id, index, {
+                        changeMessage: checked === true
+                          ? (NOTIFYING_SOURCES.includes(field.source) ? undefined : '%@')
+                          : '',
+                      })}
+                    />
+                    <Label htmlFor={`notify-${field.key}`} className="font-normal text-sm">Notify on change</Label>
+                  </div>
+                  {notifiesOnChange(field) && (
+                    <Input
+                      value={field.changeMessage ?? ''}
+                      onChange={(e) => updateField(section.id, index, {
+                        changeMessage: e.target.value || (NOTIFYING_SOURCES.includes(field.source) ? undefined : '%@'),
+                      })}
+                      placeholder="Default message"
+                    />
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        );
+      })}
+
+      <p className="text-xs text-muted-foreground">
+        When a scan changes a field that notifies, Wallet shows its message on the lock screen. Use %@ for the new
+        value, e.g. "You now have %@ stamps".
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="passTermsText" className="font-semibold">Terms and Conditions Text</Label>
+        <Textarea
+          id="passTermsText"
+          value={layout.termsText ?? ''}
+          onChange={(e) => onChange({ ...layout, termsText: e.target.value })}
+          placeholder="Leave empty to use the standard terms"
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">
+          Shown wherever a "Terms and conditions" field is placed, usually on the back of the pass.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { PassRollout } from "@db/schema";
+
+// How often progress is refreshed while passes are being updated
+const POLL_INTERVAL = 2000;
+// Finished rollouts stay visible this long, so a quick rollout isn't missed
+const RECENT_MS = 5 * 60 * 1000;
+
+export function rolloutQueryKey(cardId: number) {
+  return [`/api/cards/${cardId}/rollout`];
+}
+
+/**
+ * Progress of pushing a card change to the passes already in members' Wallets
+ */
+export function PassRolloutStatus({ cardId }: { cardId: number }) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: rollout } = useQuery<PassRollout | null>({
+    queryKey: rolloutQueryKey(cardId),
+    refetchInterval: (query) => query.state.data?.status === 'running' ? POLL_INTERVAL : false,
+  });
+
+  const cancelRollout = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', `/api/cards/${cardId}/rollout/cancel`);
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to cancel the update');
+      }
+      return res.json();
+    },
+    onSuccess: (cancelled: PassRollout) => {
+      queryClient.setQueryData(rolloutQueryKey(cardId), cancelled);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!rollout) {
+    return null;
+  }
+
+  const total = rollout.total.toLocaleString();
+  const percent = rollout.total > 0 ? Math.min(100, Math.round((rollout.processed / rollout.total) * 100)) : 100;
+
+  if (rollout.status === 'running') {
+    return (
+      <div className="space-y-2" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between gap-2 text-sm">
+          <span className="text-muted-foreground">Updating {total} passes… {percent}%</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => cancelRollout.mutate()}
+            disabled={cancelRollout.isPending}
+          >
+            Cancel
+          </Button>
+        </div>
+        <Progress value={percent} className="h-2" />
+      </div>
+    );
+  }
+
+  const completedAt = rollout.completedAt ? new Date(rollout.completedAt).getTime() : 0;
+  if (Date.now() - completedAt > RECENT_MS) {
+    return null;
+  }
+
+  return (
+    <p className="text-sm text-muted-foreground">
+      {rollout.status === 'cancelled'
+        ? `Update cancelled after ${rollout.processed.toLocaleString()} of ${total} passes`
+        : `${rollout.processed.toLocaleString()} installed passes updated`}
+    </p>
+  );
+}
@@ -0,0 +1,33 @@
+import { useMemo } from "react";
+import { renderStampStripSvg, type StampIcon } from "@db/stampStrip";
+
+interface StampStripProps {
+  maxStamps: number;
+  filledStamps: number;
+  backgroundColor: string;
+  gradientColor?: string;
+  primaryColor: string;
+  textColor: string;
+  icon?: StampIcon;
+  glyph?: string;
+  className?: string;
+}
+
+// Same artwork the server renders into strip.png, drawn at the @2x strip size
+export function StampStrip({ className, ...options }: StampStripProps) {
+  const src = useMemo(() => {
+    const svg = renderStampStripSvg({ width: 750, height: 246, ...options });
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  }, [
+    options.maxStamps,
+    options.filledStamps,
+    options.backgroundColor,
+    options.gradientColor,
+    options.primaryColor,
+    options.textColor,
+    options.icon,
+    options.glyph,
+  ]);
+
+  return <img src={src} alt={`${options.filledStamps} of ${options.maxStamps} stamps`} className={className} />;
+}
@@ -1,5 +1,7 @@
 import { Layout } from "lucide-react";
 import { QRCodeSVG } from "qrcode.react";
+import type { StampIcon } from "@db/stampStrip";
+import { StampStrip } from "./StampStrip";
 
 interface CardDesign {
   name: string;
@@ -10,14 +12,23 @@ interface CardDesign {
   gradientColor?: string;
   textColor?: string;
   cardStyle?: string;
+  loyaltyType?: string;
+  stamps?: number;
+  maxStamps?: number;
+  stampIcon?: StampIcon;
+  stampGlyph?: string;
 }
 
 interface WalletPreviewProps {
   design: CardDesign;
   cardId?: number;
+  filledStamps?: number;
 }
 
-export function WalletPreview({ design, cardId }: WalletPreviewProps) {
+export function WalletPreview({ design, cardId, filledStamps = 0 }: WalletPreviewProps) {
+  const isStampCard = (design.loyaltyType || 'stamps') === 'stamps';
+  const maxStamps = design.maxStamps || design.stamps || 10;
+
   // Generate QR code value based on card ID - points to customer enrollment page
   const qrValue = cardId 
     ? `https://${window.location.host}/join/${cardId}`
@@ -67,12 +78,27 @@ export function WalletPreview({ design, cardId }: WalletPreviewProps) {
           </div>
         </div>
 
+        {/* Strip image - matches the strip.png in the generated pass */}
+        {isStampCard && (
+          <StampStrip
+            maxStamps={maxStamps}
+            filledStamps={filledStamps}
+            backgroundColor={design.backgroundColor}
+            gradientColor={design.gradientEnabled ? design.gradientColor : undefined}
+            primaryColor={design.primaryColor}
+            textColor={design.textColor || '#ffffff'}
+            icon={design.stampIcon}
+            glyph={design.stampGlyph}
+            className="w-full block"
+          />
+        )}
+
         {/* Pass body */}
         <div className="p-4">
-          {/* Points balance */}
+          {/* Balance */}
           <div className="mb-4">
-            <div className="text-sm text-gray-600">POINTS BALANCE</div>
-            <div className="text-2xl font-bold">0</div>
+            <div className="text-sm text-gray-600">{isStampCard ? 'STAMPS' : 'POINTS BALANCE'}</div>
+            <div className="text-2xl font-bold">{isStampCard ? `${filledStamps}/${maxStamps}` : 0}</div>
           </div>
 
           {/* QR Code */}
@@ -1,6 +1,6 @@
 import { ReactNode, useState } from "react";
 import { Link, useLocation } from "wouter";
-import { Layout, CreditCard, Users, Building2, BarChart, QrCode, Menu, LogOut } from "lucide-react";
+import { Layout, CreditCard, Users, Building2, BarChart, QrCode, Menu, LogOut, FileSearch, KeyRound, ScrollText, BellRing } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import { useAuth } from "@/hooks/use-auth";
@@ -64,6 +64,34 @@ function SidebarContent({ location, onItemClick, user, onLogout }: {
           active={location === '/branches'}
           onClick={onItemClick}
         />
+        <SidebarItem
+          icon={<FileSearch className="h-5 w-5" />}
+          label="Pass Inspector"
+          href="/pass-inspector"
+          active={location === '/pass-inspector'}
+          onClick={onItemClick}
+        />
+        <SidebarItem
+          icon={<ScrollText className="h-5 w-5" />}
+          label="Device Logs"
+          href="/device-logs"
+          active={location === '/device-logs'}
+          onClick={onItemClick}
+        />
+        <SidebarItem
+          icon={<BellRing className="h-5 w-5" />}
+          label="Push Delivery"
+          href="/push-monitoring"
+          active={location === '/push-monitoring'}
+          onClick={onItemClick}
+        />
+        <SidebarItem
+          icon={<KeyRound className="h-5 w-5" />}
+          label="Wallet Certificate"
+          href="/wallet-certificate"
+          active={location === '/wallet-certificate'}
+          onClick={onItemClick}
+        />
         
         <div className="pt-4 mt-4 border-t">
           <p className="px-4 pb-2 text-xs font-medium text-muted-foreground uppercase">Staff Tools</p>
@@ -29,13 +29,18 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
-import { PlusCircle, MapPin, Pencil, Trash2 } from "lucide-react";
+import { PlusCircle, MapPin, Pencil, Trash2, Clock, Navigation } from "lucide-react";
 import type { Branch } from "@db/schema";
 
 interface BranchFormData {
   name: string;
   address: string;
+  latitude: string;
+  longitude: string;
+  openingHours: string;
+  relevantText: string;
 }
 
 export default function BranchesPage() {
@@ -138,6 +143,10 @@ export default function BranchesPage() {
     const [formData, setFormData] = useState<BranchFormData>({
       name: branch?.name || "",
       address: branch?.address || "",
+      latitude: branch?.latitude?.toString() ?? "",
+      longitude: branch?.longitude?.toString() ?? "",
+      openingHours: branch?.openingHours || "",
+      relevantText: branch?.relevantText || "",
     });
 
     return (
@@ -166,6 +175,56 @@ export default function BranchesPage() {
             required
           />
         </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="latitude">Latitude</Label>
+            <Input
+              id="latitude"
+              type="number"
+              step="any"
+              min="-90"
+              max="90"
+              value={formData.latitude}
+              onChange={(e) => setFormData(d => ({ ...d, latitude: e.target.value }))}
+              placeholder="25.2048"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="longitude">Longitude</Label>
+            <Input
+              id="longitude"
+              type="number"
+              step="any"
+              min="-180"
+              max="180"
+              value={formData.longitude}
+              onChange={(e) => setFormData(d => ({ ...d, longitude: e.target.value }))}
+              placeholder="55.2708"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          With coordinates set, members' passes appear on their lock screen when they are near this branch.
+        </p>
+        <div className="space-y-2">
+          <Label htmlFor="openingHours">Opening Hours</Label>
+          <Textarea
+            id="openingHours"
+            value={formData.openingHours}
+            onChange={(e) => setFormData(d => ({ ...d, openingHours: e.target.value }))}
+            placeholder={"Sat-Thu: 7am - 11pm\nFri: 2pm - 11pm"}
+            rows={3}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="relevantText">Lock Screen Message</Label>
+          <Input
+            id="relevantText"
+            value={formData.relevantText}
+            onChange={(e) => setFormData(d => ({ ...d, relevantText: e.target.value }))}
+            placeholder="e.g., You're near us! Show your card for a stamp"
+          />
+        </div>
         <Button type="submit" className="w-full">
           {branch ? "Update Branch" : "Create Branch"}
         </Button>
@@ -190,7 +249,7 @@ export default function BranchesPage() {
                 Add Branch
               </Button>
             </DialogTrigger>
-            <DialogContent>
+            <DialogContent className="max-h-[90vh] overflow-y-auto">
               <DialogHeader>
                 <DialogTitle>Create New Branch</DialogTitle>
               </DialogHeader>
@@ -214,6 +273,18 @@ export default function BranchesPage() {
               <p className="text-sm text-muted-foreground">
                 {branch.address}
               </p>
+              {branch.openingHours && (
+                <p className="text-sm text-muted-foreground mt-2 flex gap-2 whitespace-pre-line">
+                  <Clock className="h-4 w-4 shrink-0 mt-0.5" />
+                  {branch.openingHours}
+                </p>
+              )}
+              <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                <Navigation className="h-3 w-3" />
+                {branch.latitude !== null && branch.longitude !== null
+                  ? `${branch.latitude}, ${branch.longitude}`
+                  : "No coordinates - pass won't show on the lock screen"}
+              </p>
             </CardContent>
             <CardFooter className="flex justify-end gap-2">
               <Dialog open={editingBranch?.id === branch.id} onOpenChange={(open) => !open && setEditingBranch(null)}>
@@ -222,7 +293,7 @@ export default function BranchesPage() {
                     <Pencil className="h-4 w-4" />
                   </Button>
                 </DialogTrigger>
-                <DialogContent>
+                <DialogContent className="max-h-[90vh] overflow-y-auto">
                   <DialogHeader>
                     <DialogTitle>Edit Branch</DialogTitle>
                   </DialogHeader>
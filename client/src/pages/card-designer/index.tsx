@@ -16,6 +16,7 @@ import { PlusCircle, Trash2 } from "lucide-react";
 import CardDesigner from "@/components/cards/CardDesigner";
 import { Card, CardHeader, CardTitle, CardContent } from "@/components/ui/card";
 import { CardPreview } from "@/components/cards/CardPreview";
+import { PassRolloutStatus } from "@/components/cards/PassRolloutStatus";
 import { useToast } from "@/hooks/use-toast";
 import type { LoyaltyCard } from "@db/schema";
 
@@ -98,11 +99,21 @@ export default function CardDesignerPage() {
                         primaryColor: card.design.primaryColor,
                         backgroundColor: card.design.backgroundColor,
                         logo: card.design.logo,
-                        stamps: card.design.stamps
+                        stamps: card.design.stamps,
+                        textColor: card.design.textColor,
+                        gradientEnabled: card.design.gradientEnabled,
+                        gradientColor: card.design.gradientColor,
+                        loyaltyType: card.design.loyaltyType,
+                        maxStamps: card.design.maxStamps,
+                        stampIcon: card.design.stampIcon,
+                        stampGlyph: card.design.stampGlyph,
                       }}
                       cardId={card.id}
                     />
                   </div>
+                  <div className="mt-4 empty:hidden">
+                    <PassRolloutStatus cardId={card.id} />
+                  </div>
                 </CardContent>
               </div>
 
@@ -11,13 +11,56 @@ import {
 } from "@/components/ui/table";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
-import { Search, UserPlus, BarChart2 } from "lucide-react";
-import type { Customer } from "@db/schema";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Search, UserPlus, BarChart2, Wallet } from "lucide-react";
+import type { Customer, CustomerPass } from "@db/schema";
+
+// The customer's passes as they look in Wallet, rendered by the server
+function PassPreviewDialog({ customer, onClose }: { customer: Customer; onClose: () => void }) {
+  const { data: passes, isLoading } = useQuery<Array<CustomerPass & { status: string }>>({
+    queryKey: [`/api/customers/${customer.id}/passes`],
+  });
+  const currentPasses = passes?.filter(pass => !pass.replacedById);
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{customer.name}'s Pass</DialogTitle>
+        </DialogHeader>
+        {isLoading && <p className="text-sm text-muted-foreground">Loading...</p>}
+        {currentPasses?.length === 0 && (
+          <p className="text-sm text-muted-foreground">This customer has no pass yet</p>
+        )}
+        <div className="space-y-4">
+          {currentPasses?.map((pass) => (
+            <img
+              key={pass.serialNumber}
+              src={`/api/passes/${encodeURIComponent(pass.serialNumber)}/preview.png`}
+              alt={`Wallet pass ${pass.serialNumber}`}
+              className="w-full max-w-sm mx-auto rounded-xl shadow-lg"
+            />
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Whether any of the customer's passes is currently in a Wallet
+type CustomerWithWallet = Customer & { walletInstalled: boolean };
 
 export default function CustomersPage() {
   const [search, setSearch] = useState("");
+  const [previewCustomer, setPreviewCustomer] = useState<Customer | null>(null);
 
-  const { data: customers } = useQuery<Customer[]>({
+  const { data: customers } = useQuery<CustomerWithWallet[]>({
     queryKey: ["/api/customers"],
   });
 
@@ -70,6 +113,8 @@ export default function CustomersPage() {
               <TableHead>Phone</TableHead>
               <TableHead>Points</TableHead>
               <TableHead>Joined</TableHead>
+              <TableHead>Wallet</TableHead>
+              <TableHead className="w-[100px]"></TableHead>
             </TableRow>
           </TableHeader>
           <TableBody>
@@ -82,11 +127,28 @@ export default function CustomersPage() {
                 <TableCell>
                   {new Date(customer.createdAt).toLocaleDateString()}
                 </TableCell>
+                <TableCell>
+                  {customer.walletInstalled ? (
+                    <Badge variant="secondary">Installed</Badge>
+                  ) : (
+                    <span className="text-sm text-muted-foreground">Not added</span>
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Button variant="ghost" size="sm" onClick={() => setPreviewCustomer(customer)}>
+                    <Wallet className="mr-2 h-4 w-4" />
+                    Pass
+                  </Button>
+                </TableCell>
               </TableRow>
             ))}
           </TableBody>
         </Table>
       </div>
+
+      {previewCustomer && (
+        <PassPreviewDialog customer={previewCustomer} onClose={() => setPreviewCustomer(null)} />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,20 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
 import {
   BarChart,
@@ -13,10 +29,192 @@ import {
   PieChart,
   Pie,
   Cell,
+  Legend,
 } from "recharts";
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042'];
 
+interface InstallMetrics {
+  issued: number;
+  downloaded: number;
+  added: number;
+  installed: number;
+  uninstallRate: number | null;
+  medianSecondsToInstall: number | null;
+}
+
+interface WalletInstalls {
+  totals: InstallMetrics;
+  cards: Array<InstallMetrics & { cardId: number; cardName: string }>;
+}
+
+interface InstallTimelineDay {
+  date: string;
+  installs: number;
+  uninstalls: number;
+  activeInstalls: number;
+}
+
+// Timeline dates are calendar days, shown as such whatever the browser's time zone
+function parseDay(date: string) {
+  return new Date(`${date}T00:00:00`);
+}
+
+function formatPercent(value: number | null) {
+  return value === null ? '—' : `${Math.round(value * 100)}%`;
+}
+
+function formatDuration(seconds: number | null) {
+  if (seconds === null) return '—';
+  if (seconds < 60 * 60) return `${Math.max(1, Math.round(seconds / 60))} min`;
+  if (seconds < 48 * 60 * 60) return `${Math.round(seconds / (60 * 60))} h`;
+  return `${Math.round(seconds / (24 * 60 * 60))} days`;
+}
+
+// Share of downloaded passes that made it into Wallet
+function addRate(metrics: InstallMetrics) {
+  return metrics.downloaded > 0 ? Math.min(1, metrics.added / metrics.downloaded) : null;
+}
+
+function WalletInstallMetrics() {
+  const [cardId, setCardId] = useState("all");
+
+  const { data: installs } = useQuery<WalletInstalls>({
+    queryKey: ["/api/analytics/wallet-installs"],
+  });
+
+  const { data: timeline } = useQuery<InstallTimelineDay[]>({
+    queryKey: [`/api/analytics/wallet-installs/timeline?days=30${cardId === "all" ? "" : `&cardId=${cardId}`}`],
+  });
+
+  const totals = installs?.totals;
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h2 className="text-2xl font-semibold">Wallet Installs</h2>
+        <p className="text-muted-foreground mt-1">
+          How many downloaded passes end up in Apple Wallet, and how many stay there
+        </p>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Downloaded</CardDescription>
+            <CardTitle className="text-3xl">{totals?.downloaded ?? '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            of {totals?.issued ?? 0} passes issued
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Added to Wallet</CardDescription>
+            <CardTitle className="text-3xl">{totals?.added ?? '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {totals ? `${formatPercent(addRate(totals))} of downloads` : ''}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Uninstall Rate</CardDescription>
+            <CardTitle className="text-3xl">{totals ? formatPercent(totals.uninstallRate) : '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {totals?.installed ?? 0} passes still installed
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Time to Install</CardDescription>
+            <CardTitle className="text-3xl">{totals ? formatDuration(totals.medianSecondsToInstall) : '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            median from joining to adding the pass
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Active Installs</CardTitle>
+          <Select value={cardId} onValueChange={setCardId}>
+            <SelectTrigger className="w-[200px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All cards</SelectItem>
+              {installs?.cards.map((card) => (
+                <SelectItem key={card.cardId} value={String(card.cardId)}>{card.cardName}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={timeline}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) => parseDay(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                />
+                <YAxis yAxisId="left" allowDecimals={false} />
+                <YAxis yAxisId="right" orientation="right" allowDecimals={false} />
+                <Tooltip
+                  labelFormatter={(value) => parseDay(value).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                />
+                <Legend />
+                <Line yAxisId="left" type="monotone" dataKey="activeInstalls" stroke="#8884d8" name="Active Installs" dot={false} />
+                <Line yAxisId="right" type="monotone" dataKey="installs" stroke="#00C49F" name="Added" dot={false} />
+                <Line yAxisId="right" type="monotone" dataKey="uninstalls" stroke="#FF8042" name="Removed" dot={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>By Card</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Card</TableHead>
+                <TableHead className="text-right">Issued</TableHead>
+                <TableHead className="text-right">Downloaded</TableHead>
+                <TableHead className="text-right">Added</TableHead>
+                <TableHead className="text-right">Installed</TableHead>
+                <TableHead className="text-right">Uninstall Rate</TableHead>
+                <TableHead className="text-right">Time to Install</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {installs?.cards.map((card) => (
+                <TableRow key={card.cardId}>
+                  <TableCell className="font-medium">{card.cardName}</TableCell>
+                  <TableCell className="text-right">{card.issued}</TableCell>
+                  <TableCell className="text-right">{card.downloaded}</TableCell>
+                  <TableCell className="text-right">
+                    {card.added} <span className="text-muted-foreground">({formatPercent(addRate(card))})</span>
+                  </TableCell>
+                  <TableCell className="text-right">{card.installed}</TableCell>
+                  <TableCell className="text-right">{formatPercent(card.uninstallRate)}</TableCell>
+                  <TableCell className="text-right">{formatDuration(card.medianSecondsToInstall)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
+
 export default function CustomerMetrics() {
   const { data: segments } = useQuery({
     queryKey: ["/api/analytics/customer-segments"],
@@ -135,6 +333,8 @@ export default function CustomerMetrics() {
           </CardContent>
         </Card>
       </div>
+
+      <WalletInstallMetrics />
     </div>
   );
 }
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Search, ScrollText, ChevronDown, ChevronRight, Loader2 } from "lucide-react";
+
+interface DeviceLogGroup {
+  fingerprint: string;
+  message: string;
+  count: number;
+  passes: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+}
+
+interface DeviceLogSettings {
+  retentionDays: number;
+  canViewUnattributed: boolean;
+}
+
+interface DeviceLogEntry {
+  id: number;
+  serialNumber: string | null;
+  passTypeIdentifier: string | null;
+  message: string;
+  createdAt: string | null;
+}
+
+// Lines matching no business are only listed for WALLET_LOG_ADMIN_EMAILS accounts
+function searchQuery(search: string, unattributed: boolean) {
+  return [search ? `search=${encodeURIComponent(search)}` : '', unattributed ? 'unattributed=true' : '']
+    .filter(Boolean)
+    .join('&');
+}
+
+function GroupEntries({ fingerprint, search, unattributed }: { fingerprint: string; search: string; unattributed: boolean }) {
+  const params = [`fingerprint=${encodeURIComponent(fingerprint)}`, searchQuery(search, unattributed)].filter(Boolean).join('&');
+  const { data: entries, isLoading } = useQuery<DeviceLogEntry[]>({
+    queryKey: [`/api/device-logs/entries?${params}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {entries?.map((entry) => (
+        <div key={entry.id} className="text-sm border-l-2 pl-3 space-y-1">
+          <div className="flex flex-wrap gap-x-4 text-xs text-muted-foreground">
+            {entry.createdAt && <span>{new Date(entry.createdAt).toLocaleString()}</span>}
+            {entry.serialNumber && <span className="font-mono">{entry.serialNumber}</span>}
+          </div>
+          <p className="font-mono text-xs break-all">{entry.message}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function DeviceLogs() {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [unattributed, setUnattributed] = useState(false);
+
+  const { data: settings } = useQuery<DeviceLogSettings>({
+    queryKey: ['/api/device-logs/settings'],
+  });
+
+  const query = searchQuery(search, unattributed);
+  const { data: groups, isLoading } = useQuery<DeviceLogGroup[]>({
+    queryKey: [`/api/device-logs${query ? `?${query}` : ''}`],
+  });
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Device Logs</h1>
+        <p className="text-muted-foreground mt-2">
+          Errors your members' iPhones reported about your passes, such as signature failures or web service errors
+          {settings && `. Logs are kept for ${settings.retentionDays} days`}
+        </p>
+      </div>
+
+      {settings?.canViewUnattributed && (
+        <Tabs
+          value={unattributed ? 'unattributed' : 'own'}
+          onValueChange={(value) => {
+            setUnattributed(value === 'unattributed');
+            setExpanded(null);
+          }}
+        >
+          <TabsList>
+            <TabsTrigger value="own">Your passes</TabsTrigger>
+            <TabsTrigger value="unattributed">Matching no business</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      )}
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setSearch(searchInput.trim());
+          setExpanded(null);
+        }}
+        className="flex gap-2 max-w-xl"
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search messages or serial numbers..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Button type="submit" variant="outline">Search</Button>
+      </form>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Loading logs...
+        </div>
+      ) : !groups?.length ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <ScrollText className="h-8 w-8 text-muted-foreground" />
+            <p className="font-medium">{search ? 'No logs match your search' : 'No device logs'}</p>
+            <p className="text-sm text-muted-foreground">
+              Devices only send logs when something goes wrong with a pass
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {groups.map((group) => {
+            const isExpanded = expanded === group.fingerprint;
+            return (
+              <Card key={group.fingerprint}>
+                <CardHeader
+                  className="cursor-pointer"
+                  onClick={() => setExpanded(isExpanded ? null : group.fingerprint)}
+                >
+                  <CardTitle className="flex items-start gap-2 text-sm font-mono font-normal break-all">
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 shrink-0 mt-0.5" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 shrink-0 mt-0.5" />
+                    )}
+                    {group.message}
+                  </CardTitle>
+                  <CardDescription className="flex flex-wrap items-center gap-x-4 gap-y-1 pl-6">
+                    <Badge variant="secondary">{group.count}×</Badge>
+                    {group.passes > 0 && <span>{group.passes} pass{group.passes === 1 ? '' : 'es'}</span>}
+                    {group.lastSeen && <span>Last seen {new Date(group.lastSeen).toLocaleString()}</span>}
+                    {group.firstSeen && group.count > 1 && (
+                      <span>First seen {new Date(group.firstSeen).toLocaleString()}</span>
+                    )}
+                  </CardDescription>
+                </CardHeader>
+                {isExpanded && (
+                  <CardContent>
+                    <GroupEntries fingerprint={group.fingerprint} search={search} unattributed={unattributed} />
+                  </CardContent>
+                )}
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
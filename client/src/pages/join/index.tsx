@@ -56,6 +56,9 @@ export default function JoinPage() {
   const [termsAccepted, setTermsAccepted] = useState(false);
   const [enrollmentComplete, setEnrollmentComplete] = useState(false);
   const [passDownloadUrl, setPassDownloadUrl] = useState<string | null>(null);
+  const [googleWalletUrl, setGoogleWalletUrl] = useState<string | null>(null);
+  const [bundle, setBundle] = useState<{ url: string; passCount: number } | null>(null);
+  const [webPassUrl, setWebPassUrl] = useState<string | null>(null);
 
   const { data: card, isLoading, error } = useQuery<CardData>({
     queryKey: ['/api/public/cards', cardId],
@@ -87,6 +90,15 @@ export default function JoinPage() {
       if (data.passUrl) {
         setPassDownloadUrl(data.passUrl);
       }
+      if (data.googleWalletUrl) {
+        setGoogleWalletUrl(data.googleWalletUrl);
+      }
+      if (data.bundleUrl) {
+        setBundle({ url: data.bundleUrl, passCount: data.passCount });
+      }
+      if (data.webPassUrl) {
+        setWebPassUrl(data.webPassUrl);
+      }
     },
     onError: (error: Error) => {
       toast({
@@ -140,18 +152,18 @@ export default function JoinPage() {
     enrollMutation.mutate({ cardId: cardId!, formData });
   };
 
-  const downloadPass = async () => {
-    if (!passDownloadUrl) return;
+  const downloadPass = async (downloadUrl: string | null, fileName: string) => {
+    if (!downloadUrl) return;
     
     try {
-      const response = await fetch(passDownloadUrl);
+      const response = await fetch(downloadUrl);
       if (!response.ok) throw new Error('Failed to download pass');
       
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${card?.name || 'loyalty'}.pkpass`;
+      a.download = fileName;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -224,7 +236,7 @@ export default function JoinPage() {
               className="text-lg"
               style={{ color: card.design.textColor, opacity: 0.9 }}
             >
-              Press Add to Wallet
+              Add your card to Apple or Google Wallet
             </p>
           </div>
 
@@ -235,12 +247,59 @@ export default function JoinPage() {
               backgroundColor: '#000000',
               color: '#FFFFFF',
             }}
-            onClick={downloadPass}
+            onClick={() => downloadPass(passDownloadUrl, `${card?.name || 'loyalty'}.pkpass`)}
           >
             <Wallet className="h-6 w-6" />
             <span>Add to Apple Wallet</span>
           </Button>
 
+          {bundle && (
+            <div className="space-y-2">
+              <p
+                className="text-sm"
+                style={{ color: card.design.textColor, opacity: 0.8 }}
+              >
+                You're a member of {bundle.passCount} programs at {card.business?.name}
+              </p>
+              <Button
+                size="lg"
+                variant="outline"
+                className="w-full max-w-xs mx-auto h-14 text-lg font-semibold gap-3"
+                onClick={() => downloadPass(bundle.url, `${card.business?.name || 'loyalty'}.pkpasses`)}
+              >
+                <Wallet className="h-6 w-6" />
+                <span>Add all {bundle.passCount} cards</span>
+              </Button>
+            </div>
+          )}
+
+          {googleWalletUrl && (
+            <Button
+              asChild
+              size="lg"
+              className="w-full max-w-xs mx-auto h-14 text-lg font-semibold gap-3"
+              style={{ 
+                backgroundColor: '#1F1F1F',
+                color: '#FFFFFF',
+              }}
+            >
+              <a href={googleWalletUrl} target="_blank" rel="noopener noreferrer">
+                <Wallet className="h-6 w-6" />
+                <span>Save to Google Wallet</span>
+              </a>
+            </Button>
+          )}
+
+          {webPassUrl && (
+            <a
+              href={webPassUrl}
+              className="block text-sm underline"
+              style={{ color: card.design.textColor, opacity: 0.8 }}
+            >
+              No Wallet app? Open your card in the browser
+            </a>
+          )}
+
           <p 
             className="text-sm mt-8"
             style={{ color: card.design.textColor, opacity: 0.6 }}
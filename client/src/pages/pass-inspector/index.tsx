@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CheckCircle2, AlertTriangle, XCircle, FileSearch, Upload, Loader2 } from "lucide-react";
+
+type InspectionStatus = 'pass' | 'warning' | 'error';
+
+interface InspectionReport {
+  valid: boolean;
+  checks: Array<{ section: string; status: InspectionStatus; message: string }>;
+  files: Array<{ name: string; size: number }>;
+  pass?: {
+    passTypeIdentifier?: string;
+    teamIdentifier?: string;
+    serialNumber?: string;
+    organizationName?: string;
+    description?: string;
+    style?: string;
+  };
+  signature?: {
+    digestAlgorithm: string;
+    signingTime: string | null;
+    signer: string | null;
+    issuer: string | null;
+    validTo: string | null;
+  };
+}
+
+const SECTIONS = [
+  { id: 'archive', name: 'Archive' },
+  { id: 'manifest', name: 'Manifest' },
+  { id: 'signature', name: 'Signature' },
+  { id: 'pass.json', name: 'pass.json' },
+  { id: 'images', name: 'Images' },
+];
+
+function StatusIcon({ status }: { status: InspectionStatus }) {
+  if (status === 'pass') return <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0 mt-0.5" />;
+  if (status === 'warning') return <AlertTriangle className="h-4 w-4 text-amber-500 shrink-0 mt-0.5" />;
+  return <XCircle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />;
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read the file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function PassInspector() {
+  const { toast } = useToast();
+  const [serialNumber, setSerialNumber] = useState("");
+  const [report, setReport] = useState<InspectionReport | null>(null);
+
+  const inspect = useMutation({
+    mutationFn: async (body: { pkpass?: string; serialNumber?: string }) => {
+      const res = await apiRequest('POST', '/api/passes/inspect', body);
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to inspect pass");
+      }
+      return res.json();
+    },
+    onSuccess: (data: InspectionReport) => {
+      setReport(data);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      inspect.mutate({ pkpass: await readFileAsDataUrl(file) });
+    } catch (error: any) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  };
+
+  const counts = report
+    ? {
+        error: report.checks.filter(check => check.status === 'error').length,
+        warning: report.checks.filter(check => check.status === 'warning').length,
+      }
+    : null;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Pass Inspector</h1>
+        <p className="text-muted-foreground mt-2">
+          Check a Wallet pass the way an iPhone does: manifest hashes, signature and certificate chain, pass.json and images
+        </p>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Upload a .pkpass</CardTitle>
+            <CardDescription>Inspect a pass file you downloaded or received</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Label
+              htmlFor="pkpassFile"
+              className="flex flex-col items-center justify-center gap-2 p-6 border-2 border-dashed rounded-lg cursor-pointer hover:bg-muted"
+            >
+              <Upload className="h-6 w-6 text-muted-foreground" />
+              <span className="text-sm text-muted-foreground">Choose a .pkpass file</span>
+            </Label>
+            <Input
+              id="pkpassFile"
+              type="file"
+              accept=".pkpass,application/vnd.apple.pkpass"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = "";
+              }}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Build and inspect a pass</CardTitle>
+            <CardDescription>Generate a fresh copy of one of your members' passes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (serialNumber.trim()) {
+                  inspect.mutate({ serialNumber: serialNumber.trim() });
+                }
+              }}
+              className="space-y-3"
+            >
+              <Label htmlFor="serialNumber">Pass Serial Number</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="serialNumber"
+                  value={serialNumber}
+                  onChange={(e) => setSerialNumber(e.target.value)}
+                  placeholder="pass-12-34-1700000000000"
+                  className="font-mono text-sm"
+                />
+                <Button type="submit" disabled={inspect.isPending || !serialNumber.trim()}>
+                  <FileSearch className="h-4 w-4 mr-2" />
+                  Inspect
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+
+      {inspect.isPending && (
+        <div className="flex items-center gap-2 text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Inspecting pass...
+        </div>
+      )}
+
+      {report && counts && (
+        <Card className={report.valid ? 'border-green-500' : 'border-destructive'}>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              {report.valid ? (
+                <CheckCircle2 className="h-5 w-5 text-green-600" />
+              ) : (
+                <XCircle className="h-5 w-5 text-destructive" />
+              )}
+              {report.valid ? 'Wallet should accept this pass' : 'Wallet will reject this pass'}
+            </CardTitle>
+            <CardDescription>
+              {counts.error} error{counts.error === 1 ? '' : 's'}, {counts.warning} warning{counts.warning === 1 ? '' : 's'}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {(report.pass || report.signature) && (
+              <div className="grid gap-2 sm:grid-cols-2 text-sm">
+                {report.pass?.passTypeIdentifier && (
+                  <div><span className="text-muted-foreground">Pass type: </span><span className="font-mono">{report.pass.passTypeIdentifier}</span></div>
+                )}
+                {report.pass?.teamIdentifier && (
+                  <div><span className="text-muted-foreground">Team: </span><span className="font-mono">{report.pass.teamIdentifier}</span></div>
+                )}
+                {report.pass?.serialNumber && (
+                  <div><span className="text-muted-foreground">Serial: </span><span className="font-mono">{report.pass.serialNumber}</span></div>
+                )}
+                {report.pass?.style && (
+                  <div><span className="text-muted-foreground">Style: </span>{report.pass.style}</div>
+                )}
+                {report.signature?.signer && (
+                  <div><span className="text-muted-foreground">Signed by: </span>{report.signature.signer}</div>
+                )}
+                {report.signature?.signingTime && (
+                  <div>
+                    <span className="text-muted-foreground">Signed: </span>
+                    {new Date(report.signature.signingTime).toLocaleString()} ({report.signature.digestAlgorithm.toUpperCase()})
+                  </div>
+                )}
+              </div>
+            )}
+
+            {SECTIONS.map((section) => {
+              const checks = report.checks.filter(check => check.section === section.id);
+              if (checks.length === 0) return null;
+              return (
+                <div key={section.id} className="space-y-2">
+                  <h3 className="font-semibold">{section.name}</h3>
+                  {checks.map((check, index) => (
+                    <div key={index} className="flex items-start gap-2 text-sm">
+                      <StatusIcon status={check.status} />
+                      <span>{check.message}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })}
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Files</h3>
+              <div className="flex flex-wrap gap-2">
+                {report.files.map((file) => (
+                  <Badge key={file.name} variant="secondary" className="font-mono font-normal">
+                    {file.name} ({(file.size / 1024).toFixed(1)} KB)
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
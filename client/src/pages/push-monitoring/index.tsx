@@ -0,0 +1,311 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from "recharts";
+
+// Days of history shown on the page
+const DAYS = 14;
+
+interface PushStatus {
+  apns: {
+    ready: boolean;
+    problem: 'missing_credentials' | 'missing_key' | 'init_failed' | null;
+    message: string | null;
+    environment: 'production' | 'sandbox';
+    transport: 'http2' | 'fake';
+  };
+  ownPassTypeIdentifier: string | null;
+}
+
+interface PushStats {
+  sent: number;
+  failed: number;
+  invalidToken: number;
+  successRate: number | null;
+  timeline: Array<{ date: string; sent: number; failed: number; invalidToken: number }>;
+  reasons: Array<{ reason: string; count: number; lastSeen: string | null }>;
+  queue: { pending: number; failed: number };
+}
+
+interface FailingPass {
+  serialNumber: string;
+  customerName: string;
+  cardName: string;
+  failures: number;
+  lastError: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+}
+
+const PROBLEM_TITLES: Record<NonNullable<PushStatus['apns']['problem']>, string> = {
+  missing_credentials: 'Push notifications are not configured',
+  missing_key: 'APNs key (.p8) is missing',
+  init_failed: 'APNs failed to start',
+};
+
+// What a failure reason from APNs means for the business
+const REASON_HINTS: Record<string, string> = {
+  BadDeviceToken: 'The device token is invalid; the registration was removed',
+  Unregistered: 'The pass was removed from the device',
+  DeviceTokenNotForTopic: 'The push was sent with a certificate for another pass type; check the Wallet certificate',
+  TooManyRequests: 'Apple is rate limiting pushes; they are retried',
+  ServiceUnavailable: 'APNs was unavailable; pushes are retried',
+  InternalServerError: 'APNs error; pushes are retried',
+  ExpiredProviderToken: 'The APNs key token expired; check the server clock',
+  InvalidProviderToken: 'The APNs key, key ID or team ID is wrong',
+  TopicDisallowed: 'The APNs key cannot push for this pass type',
+};
+
+// Timeline dates are calendar days, shown as such whatever the browser's time zone
+function parseDay(date: string) {
+  return new Date(`${date}T00:00:00`);
+}
+
+export default function PushMonitoringPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: status } = useQuery<PushStatus>({
+    queryKey: ["/api/push-monitoring/status"],
+  });
+
+  const { data: stats } = useQuery<PushStats>({
+    queryKey: [`/api/push-monitoring/stats?days=${DAYS}`],
+  });
+
+  const { data: failingPasses } = useQuery<FailingPass[]>({
+    queryKey: [`/api/push-monitoring/failing-passes?days=${DAYS}`],
+  });
+
+  const resendPush = useMutation({
+    mutationFn: async (serialNumber: string) => {
+      const res = await apiRequest('POST', `/api/passes/${encodeURIComponent(serialNumber)}/resend-push`);
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || 'Failed to resend push');
+      }
+      return res.json() as Promise<{ devices: number }>;
+    },
+    onSuccess: ({ devices }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/push-monitoring/stats?days=${DAYS}`] });
+      toast({
+        title: devices > 0 ? "Push queued" : "No devices",
+        description: devices > 0
+          ? `Queued a push to ${devices} device(s)`
+          : "No device has this pass installed anymore",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const apns = status?.apns;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Push Delivery</h1>
+        <p className="text-muted-foreground mt-2">
+          How reliably pass updates reach your members' Wallets over the last {DAYS} days
+        </p>
+      </div>
+
+      {apns && !apns.ready && apns.problem && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{PROBLEM_TITLES[apns.problem]}</AlertTitle>
+          <AlertDescription>
+            {apns.message?.replace(/\.$/, '')}.{' '}
+            {status?.ownPassTypeIdentifier
+              ? `Passes issued under ${status.ownPassTypeIdentifier} push with your own certificate and are unaffected.`
+              : 'Wallet passes will not update on their own until this is fixed.'}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-4 md:grid-cols-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Success Rate</CardDescription>
+            <CardTitle className="text-3xl">
+              {stats?.successRate != null ? `${Math.round(stats.successRate * 100)}%` : '—'}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {stats ? `${(stats.sent + stats.failed + stats.invalidToken).toLocaleString()} attempts` : ''}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Delivered</CardDescription>
+            <CardTitle className="text-3xl">{stats?.sent.toLocaleString() ?? '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {apns ? (apns.transport === 'fake' ? 'Fake APNs (local testing)' : `APNs ${apns.environment}`) : ''}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Failed</CardDescription>
+            <CardTitle className="text-3xl">{stats ? (stats.failed + stats.invalidToken).toLocaleString() : '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {stats ? `${stats.invalidToken.toLocaleString()} from removed devices` : ''}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Queue</CardDescription>
+            <CardTitle className="text-3xl">{stats?.queue.pending.toLocaleString() ?? '—'}</CardTitle>
+          </CardHeader>
+          <CardContent className="text-sm text-muted-foreground">
+            {stats ? `waiting, ${stats.queue.failed.toLocaleString()} given up` : ''}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pushes per Day</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="h-[300px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stats?.timeline}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis
+                  dataKey="date"
+                  tickFormatter={(value) => parseDay(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                />
+                <YAxis allowDecimals={false} />
+                <Tooltip
+                  labelFormatter={(value) => parseDay(value).toLocaleDateString(undefined, { dateStyle: 'medium' })}
+                />
+                <Legend />
+                <Bar dataKey="sent" stackId="pushes" fill="#00C49F" name="Delivered" />
+                <Bar dataKey="failed" stackId="pushes" fill="#FF8042" name="Failed" />
+                <Bar dataKey="invalidToken" stackId="pushes" fill="#FFBB28" name="Device removed" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Failure Reasons</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {!stats?.reasons.length ? (
+              <p className="text-sm text-muted-foreground">No failed pushes</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Reason</TableHead>
+                    <TableHead className="text-right">Count</TableHead>
+                    <TableHead className="text-right">Last Seen</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stats.reasons.map((reason) => (
+                    <TableRow key={reason.reason}>
+                      <TableCell>
+                        <p className="font-mono text-sm">{reason.reason}</p>
+                        {REASON_HINTS[reason.reason] && (
+                          <p className="text-xs text-muted-foreground">{REASON_HINTS[reason.reason]}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{reason.count.toLocaleString()}</TableCell>
+                      <TableCell className="text-right text-sm text-muted-foreground">
+                        {reason.lastSeen ? new Date(reason.lastSeen).toLocaleString() : '—'}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Persistently Failing Passes</CardTitle>
+            <CardDescription>Several failed pushes and no successful one since</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {!failingPasses?.length ? (
+              <p className="text-sm text-muted-foreground">No passes are failing</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Member</TableHead>
+                    <TableHead>Last Error</TableHead>
+                    <TableHead className="text-right">Failures</TableHead>
+                    <TableHead className="w-[100px]"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {failingPasses.map((pass) => (
+                    <TableRow key={pass.serialNumber}>
+                      <TableCell>
+                        <p className="font-medium">{pass.customerName}</p>
+                        <p className="text-xs text-muted-foreground">{pass.cardName}</p>
+                      </TableCell>
+                      <TableCell>
+                        <p className="font-mono text-sm">{pass.lastError || 'Unknown error'}</p>
+                        {pass.lastFailureAt && (
+                          <p className="text-xs text-muted-foreground">{new Date(pass.lastFailureAt).toLocaleString()}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">{pass.failures}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => resendPush.mutate(pass.serialNumber)}
+                          disabled={resendPush.isPending}
+                        >
+                          <RefreshCw className="mr-2 h-4 w-4" />
+                          Resend
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
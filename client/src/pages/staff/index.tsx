@@ -40,6 +40,9 @@ interface LookupResult {
     currentBalance: number;
     lifetimeBalance: number;
     lastUpdated: string;
+    status: 'active' | 'voided' | 'expired' | 'replaced';
+    statusMessage: string | null;
+    expiresAt: string | null;
   };
   card: {
     id: number;
@@ -58,12 +61,19 @@ interface LookupResult {
   }>;
 }
 
+// Rejections from cards with rotating codes; staff should ask for a refreshed pass, not retry
+interface CodeError {
+  code: 'EXPIRED_CODE' | 'STATIC_CODE';
+  message: string;
+}
+
 export default function StaffPage() {
   const { toast } = useToast();
   const [qrInput, setQrInput] = useState("");
   const [amount, setAmount] = useState(1);
   const [lastScan, setLastScan] = useState<ScanResult | null>(null);
   const [customerInfo, setCustomerInfo] = useState<LookupResult | null>(null);
+  const [codeError, setCodeError] = useState<CodeError | null>(null);
   const [mode, setMode] = useState<'scan' | 'lookup'>('scan');
   const [cameraActive, setCameraActive] = useState(false);
   const [cameraStarting, setCameraStarting] = useState(false);
@@ -138,13 +148,14 @@ export default function StaffPage() {
       const response = await apiRequest('POST', '/api/staff/scan', data);
       if (!response.ok) {
         const err = await response.json();
-        throw new Error(err.message || "Failed to process scan");
+        throw Object.assign(new Error(err.message || "Failed to process scan"), { code: err.code });
       }
       return response.json();
     },
     onSuccess: (data: ScanResult) => {
       setLastScan(data);
       setQrInput("");
+      setCodeError(null);
       
       if (data.rewardEarned) {
         toast({
@@ -164,8 +175,11 @@ export default function StaffPage() {
       }
     },
     onError: (error: any) => {
+      if (error.code === 'EXPIRED_CODE' || error.code === 'STATIC_CODE') {
+        setCodeError({ code: error.code, message: error.message });
+      }
       toast({
-        title: "Error",
+        title: error.code === 'EXPIRED_CODE' ? "Expired Code" : "Error",
         description: error.message || "Failed to process scan",
         variant: "destructive",
       });
@@ -202,6 +216,7 @@ export default function StaffPage() {
       });
       return;
     }
+    setCodeError(null);
     scanMutation.mutate({ qrData: qrInput.trim(), amount });
   };
 
@@ -321,13 +336,25 @@ export default function StaffPage() {
               </div>
             )}
 
+            {codeError && mode === 'scan' && (
+              <div className="bg-destructive/10 border border-destructive/40 rounded-lg p-4 text-destructive">
+                <div className="flex items-center gap-2 mb-1">
+                  <AlertCircle className="h-5 w-5" />
+                  <span className="font-semibold">
+                    {codeError.code === 'EXPIRED_CODE' ? 'Expired code' : 'Screenshot or printed code'}
+                  </span>
+                </div>
+                <p className="text-sm">{codeError.message}</p>
+              </div>
+            )}
+
             <div className="space-y-2">
-              <Label htmlFor="qrInput">Or paste QR code manually</Label>
+              <Label htmlFor="qrInput">Or enter the code or member number manually</Label>
               <Input
                 id="qrInput"
                 value={qrInput}
                 onChange={(e) => setQrInput(e.target.value)}
-                placeholder="Paste QR code content here"
+                placeholder="Paste code content or type member number (e.g. #123)"
                 className="font-mono text-sm"
               />
             </div>
@@ -493,6 +520,12 @@ export default function StaffPage() {
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
+              {customerInfo.pass.statusMessage && (
+                <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-destructive text-sm">
+                  <AlertCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <span>{customerInfo.pass.statusMessage}</span>
+                </div>
+              )}
               {customerInfo.customer ? (
                 <>
                   <div className="space-y-2">
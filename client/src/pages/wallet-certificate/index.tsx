@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { KeyRound, Upload, Trash2, XCircle, Loader2 } from "lucide-react";
+
+interface SigningCredentialSummary {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  subject: string;
+  expiresAt: string;
+  updatedAt: string | null;
+}
+
+interface SigningCredentialsResponse {
+  credential: SigningCredentialSummary | null;
+  platformPassTypeIdentifier: string | null;
+}
+
+function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Could not read the file"));
+    reader.readAsDataURL(file);
+  });
+}
+
+export default function WalletCertificate() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [file, setFile] = useState<File | null>(null);
+  const [password, setPassword] = useState("");
+  const [uploadErrors, setUploadErrors] = useState<Array<{ code: string; message: string }>>([]);
+
+  const { data, isLoading } = useQuery<SigningCredentialsResponse>({
+    queryKey: ["/api/signing-credentials"],
+  });
+
+  const upload = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('POST', '/api/signing-credentials', {
+        p12: await readFileAsDataUrl(file!),
+        password,
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        setUploadErrors(body.errors || []);
+        throw new Error(body.message || "Failed to upload certificate");
+      }
+      return body;
+    },
+    onSuccess: () => {
+      setUploadErrors([]);
+      setFile(null);
+      setPassword("");
+      queryClient.invalidateQueries({ queryKey: ["/api/signing-credentials"] });
+      toast({
+        title: "Certificate saved",
+        description: "New passes will be issued under your own pass type",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest('DELETE', '/api/signing-credentials');
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || "Failed to remove certificate");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/signing-credentials"] });
+      toast({ title: "Certificate removed" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const credential = data?.credential;
+  const daysLeft = credential
+    ? Math.floor((new Date(credential.expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000))
+    : null;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-3xl font-bold">Wallet Certificate</h1>
+        <p className="text-muted-foreground mt-2">
+          Issue Apple Wallet passes under your own Apple developer account
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Current Pass Type
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex items-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              Loading...
+            </div>
+          ) : credential ? (
+            <div className="space-y-4">
+              <div className="grid gap-2 sm:grid-cols-2 text-sm">
+                <div><span className="text-muted-foreground">Pass type: </span><span className="font-mono">{credential.passTypeIdentifier}</span></div>
+                <div><span className="text-muted-foreground">Team: </span><span className="font-mono">{credential.teamIdentifier}</span></div>
+                <div><span className="text-muted-foreground">Certificate: </span>{credential.subject}</div>
+                <div className="flex items-center gap-2">
+                  <span className="text-muted-foreground">Expires: </span>
+                  {new Date(credential.expiresAt).toLocaleDateString()}
+                  {daysLeft !== null && daysLeft < 30 && (
+                    <Badge variant="destructive">{daysLeft < 0 ? 'Expired' : `${daysLeft} days left`}</Badge>
+                  )}
+                </div>
+              </div>
+              <AlertDialog>
+                <AlertDialogTrigger asChild>
+                  <Button variant="outline" disabled={remove.isPending}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Remove Certificate
+                  </Button>
+                </AlertDialogTrigger>
+                <AlertDialogContent>
+                  <AlertDialogHeader>
+                    <AlertDialogTitle>Remove Certificate</AlertDialogTitle>
+                    <AlertDialogDescription>
+                      New passes will use the LoyaltyPro pass type. Passes already issued under yours stop
+                      updating until they are reissued.
+                    </AlertDialogDescription>
+                  </AlertDialogHeader>
+                  <AlertDialogFooter>
+                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                    <AlertDialogAction
+                      onClick={() => remove.mutate()}
+                      className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                    >
+                      Remove
+                    </AlertDialogAction>
+                  </AlertDialogFooter>
+                </AlertDialogContent>
+              </AlertDialog>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Passes are issued under the LoyaltyPro pass type
+              {data?.platformPassTypeIdentifier && (
+                <> (<span className="font-mono">{data.platformPassTypeIdentifier}</span>)</>
+              )}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{credential ? 'Replace Certificate' : 'Upload Certificate'}</CardTitle>
+          <CardDescription>
+            Create a Pass Type ID certificate in your Apple developer account, then export it with its private key
+            from Keychain Access as a .p12 file. Passes already in your members' wallets keep their pass type until
+            you reissue them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (file) {
+                upload.mutate();
+              }
+            }}
+            className="space-y-4 max-w-md"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="p12File">Certificate (.p12)</Label>
+              <Input
+                id="p12File"
+                type="file"
+                accept=".p12,.pfx,application/x-pkcs12"
+                onChange={(e) => setFile(e.target.files?.[0] || null)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="p12Password">Export Password</Label>
+              <Input
+                id="p12Password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="off"
+              />
+            </div>
+            <Button type="submit" disabled={!file || upload.isPending}>
+              {upload.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              Upload
+            </Button>
+          </form>
+
+          {uploadErrors.length > 0 && (
+            <div className="mt-6 space-y-2">
+              {uploadErrors.map((error, index) => (
+                <div key={index} className="flex items-start gap-2 text-sm text-destructive">
+                  <XCircle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <span>{error.message}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
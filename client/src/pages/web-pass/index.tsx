@@ -0,0 +1,224 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useParams } from "wouter";
+import { Loader2, AlertCircle, Gift } from "lucide-react";
+
+interface WebPassData {
+  serialNumber: string;
+  status: 'active' | 'voided' | 'expired' | 'replaced';
+  statusMessage: string | null;
+  card: {
+    id: number;
+    name: string;
+    loyaltyType: 'stamps' | 'points' | 'membership';
+    backgroundColor: string;
+    foregroundColor: string;
+    rewardDescription: string | null;
+  };
+  businessName: string;
+  memberName: string;
+  balance: number;
+  progress: { current: number; target: number } | null;
+  barcode: {
+    svg: string;
+    altText: string | null;
+    refreshSeconds: number | null;
+  } | null;
+  transactions: Array<{
+    id: number;
+    type: string;
+    amount: number;
+    description: string | null;
+    createdAt: string | null;
+  }>;
+}
+
+// How often the balance is refreshed while the page is open
+const REFRESH_INTERVAL = 30_000;
+
+function getBalanceLabel(loyaltyType: string) {
+  switch (loyaltyType) {
+    case 'stamps': return 'Stamps';
+    case 'membership': return 'Visits';
+    default: return 'Points';
+  }
+}
+
+// Adds or updates a <link>/<meta> tag in the document head, for installing the page as an app
+function setHeadTag(tag: 'link' | 'meta', key: 'rel' | 'name', value: string, attributes: Record<string, string>) {
+  let element = document.head.querySelector<HTMLElement>(`${tag}[${key}="${value}"]`);
+  if (!element) {
+    element = document.createElement(tag);
+    element.setAttribute(key, value);
+    document.head.appendChild(element);
+  }
+  for (const [name, content] of Object.entries(attributes)) {
+    element.setAttribute(name, content);
+  }
+}
+
+export default function WebPassPage() {
+  const { serialNumber } = useParams<{ serialNumber: string }>();
+  const token = new URLSearchParams(window.location.search).get('token') || '';
+  const query = `?token=${encodeURIComponent(token)}`;
+
+  const { data: pass, isLoading, error } = useQuery<WebPassData>({
+    queryKey: ['/api/web-pass', serialNumber, token],
+    queryFn: async () => {
+      const res = await fetch(`/api/web-pass/${encodeURIComponent(serialNumber!)}${query}`);
+      if (!res.ok) {
+        const err = await res.json();
+        throw new Error(err.error || 'Failed to load your card');
+      }
+      return res.json();
+    },
+    enabled: !!serialNumber && !!token,
+    // Rotating codes are refetched just as they change, so the code on screen always scans
+    refetchInterval: (q) => {
+      const refreshSeconds = q.state.data?.barcode?.refreshSeconds;
+      return refreshSeconds ? refreshSeconds * 1000 : REFRESH_INTERVAL;
+    },
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!pass) return;
+    document.title = `${pass.card.name} - ${pass.businessName}`;
+    setHeadTag('link', 'rel', 'manifest', {
+      href: `/api/web-pass/${encodeURIComponent(pass.serialNumber)}/manifest.webmanifest${query}`,
+    });
+    setHeadTag('link', 'rel', 'apple-touch-icon', { href: `/api/public/cards/${pass.card.id}/logo.png` });
+    setHeadTag('meta', 'name', 'apple-mobile-web-app-capable', { content: 'yes' });
+    setHeadTag('meta', 'name', 'apple-mobile-web-app-title', { content: pass.businessName });
+    setHeadTag('meta', 'name', 'theme-color', { content: pass.card.backgroundColor });
+  }, [pass?.serialNumber, pass?.card.backgroundColor]);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin" />
+      </div>
+    );
+  }
+
+  if (!pass) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-4 text-center gap-3">
+        <AlertCircle className="h-10 w-10 text-muted-foreground" />
+        <h1 className="text-xl font-semibold">Card not available</h1>
+        <p className="text-muted-foreground">
+          {error?.message || 'This link is missing its access code. Open the link you received when you joined.'}
+        </p>
+      </div>
+    );
+  }
+
+  const { card } = pass;
+  const progressPercent = pass.progress ? Math.min(100, (pass.progress.current / pass.progress.target) * 100) : 0;
+
+  return (
+    <div className="min-h-screen bg-muted/40 flex justify-center p-4">
+      <div className="w-full max-w-sm space-y-4">
+        <div
+          className="rounded-2xl shadow-lg overflow-hidden"
+          style={{ backgroundColor: card.backgroundColor, color: card.foregroundColor }}
+        >
+          <div className="flex items-center gap-3 p-4">
+            <img
+              src={`/api/public/cards/${card.id}/logo.png`}
+              alt=""
+              className="h-10 w-10 rounded-lg"
+            />
+            <div className="min-w-0">
+              <p className="font-semibold truncate">{pass.businessName}</p>
+              <p className="text-sm opacity-80 truncate">{card.name}</p>
+            </div>
+          </div>
+
+          <div className="px-4 pb-4 space-y-3">
+            <div>
+              <p className="text-xs font-semibold uppercase opacity-80">{getBalanceLabel(card.loyaltyType)}</p>
+              <p className="text-4xl font-bold">
+                {pass.balance}
+                {card.loyaltyType === 'stamps' && pass.progress && (
+                  <span className="text-xl font-normal opacity-80"> / {pass.progress.target}</span>
+                )}
+              </p>
+            </div>
+
+            {pass.progress && (
+              <div className="space-y-1">
+                <div className="relative h-2 rounded-full overflow-hidden">
+                  <div className="absolute inset-0 opacity-25" style={{ backgroundColor: card.foregroundColor }} />
+                  <div
+                    className="relative h-full rounded-full transition-all"
+                    style={{ width: `${progressPercent}%`, backgroundColor: card.foregroundColor }}
+                  />
+                </div>
+                <p className="text-xs opacity-80">
+                  {pass.progress.current >= pass.progress.target
+                    ? 'Reward available!'
+                    : `${pass.progress.target - pass.progress.current} ${card.loyaltyType === 'stamps' ? 'stamps' : 'points'} to your next reward`}
+                </p>
+              </div>
+            )}
+
+            {card.rewardDescription && (
+              <p className="flex items-center gap-2 text-sm">
+                <Gift className="h-4 w-4 shrink-0" />
+                {card.rewardDescription}
+              </p>
+            )}
+
+            <div className="text-sm">
+              <p className="text-xs font-semibold uppercase opacity-80">Member</p>
+              <p>{pass.memberName}</p>
+            </div>
+          </div>
+
+          <div className="bg-white p-4 flex flex-col items-center gap-2">
+            {pass.barcode ? (
+              <>
+                <img
+                  src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(pass.barcode.svg)}`}
+                  alt="Membership barcode"
+                  className="w-full max-w-[240px] max-h-[240px] object-contain"
+                />
+                {pass.barcode.altText && (
+                  <p className="text-sm text-black font-mono">{pass.barcode.altText}</p>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-black text-center py-6">{pass.statusMessage}</p>
+            )}
+          </div>
+        </div>
+
+        <div className="rounded-2xl bg-background shadow-sm p-4 space-y-3">
+          <h2 className="font-semibold">Recent Activity</h2>
+          {pass.transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No activity yet</p>
+          ) : (
+            pass.transactions.map((transaction) => (
+              <div key={transaction.id} className="flex items-center justify-between text-sm gap-3">
+                <div className="min-w-0">
+                  <p className="truncate">{transaction.description || transaction.type}</p>
+                  {transaction.createdAt && (
+                    <p className="text-xs text-muted-foreground">{new Date(transaction.createdAt).toLocaleString()}</p>
+                  )}
+                </div>
+                <span className="font-medium shrink-0">
+                  {transaction.amount > 0 ? `+${transaction.amount}` : transaction.amount}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+
+        <p className="text-xs text-center text-muted-foreground">
+          Add this page to your home screen to keep your card one tap away
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+// Pass field layout configuration, shared by the pass generator and the card designer
+import { z } from 'zod';
+
+// Data a pass field can show; 'static' fields show a fixed label/value pair
+export const PASS_FIELD_SOURCES = [
+  'balance',
+  'memberName',
+  'businessName',
+  'memberSince',
+  'visits',
+  'nextReward',
+  'rewardDescription',
+  'memberId',
+  'cardId',
+  'phone',
+  'address',
+  'website',
+  'locations',
+  'terms',
+  'lastReward',
+  'static',
+] as const;
+
+export const passFieldSchema = z.object({
+  key: z.string().regex(/^[A-Za-z0-9_]+$/),
+  source: z.enum(PASS_FIELD_SOURCES),
+  label: z.string().optional(),
+  value: z.string().optional(),
+  // Lock-screen message when the value changes, with %@ for the new value; empty for a silent update
+  // Falls back to the source's default message (see passFieldService)
+  changeMessage: z.string().optional(),
+});
+
+// Store cards show at most four secondary and auxiliary fields between them
+export const MAX_FRONT_ROW_FIELDS = 4;
+
+// Which fields appear in each pass slot (Apple store card pass style)
+export const fieldLayoutSchema = z.object({
+  primaryFields: z.array(passFieldSchema).max(1),
+  secondaryFields: z.array(passFieldSchema).max(MAX_FRONT_ROW_FIELDS),
+  auxiliaryFields: z.array(passFieldSchema).max(MAX_FRONT_ROW_FIELDS),
+  backFields: z.array(passFieldSchema),
+  termsText: z.string().optional(),
+  // FIELD_LAYOUT_VERSION when saved; missing on layouts saved before versions existed
+  version: z.number().int().optional(),
+}).superRefine((layout, ctx) => {
+  if (layout.secondaryFields.length + layout.auxiliaryFields.length > MAX_FRONT_ROW_FIELDS) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['auxiliaryFields'],
+      message: `At most ${MAX_FRONT_ROW_FIELDS} secondary and auxiliary fields in total`,
+    });
+  }
+
+  // Wallet rejects a pass.json whose field keys repeat, across all slots
+  const seen = new Set<string>();
+  for (const slot of ['primaryFields', 'secondaryFields', 'auxiliaryFields', 'backFields'] as const) {
+    layout[slot].forEach((field, index) => {
+      if (seen.has(field.key)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [slot, index, 'key'],
+          message: `Duplicate field key "${field.key}"`,
+        });
+      }
+      seen.add(field.key);
+    });
+  }
+});
+
+export type PassField = z.infer<typeof passFieldSchema>;
+export type FieldLayout = z.infer<typeof fieldLayoutSchema>;
+
+// Bumped when a new field should be added to layouts saved before it existed (see upgradeFieldLayout)
+// 1: the lastReward back field
+export const FIELD_LAYOUT_VERSION = 1;
+
+// Layout used by cards that have not customized their fields
+export const DEFAULT_FIELD_LAYOUT: FieldLayout = {
+  version: FIELD_LAYOUT_VERSION,
+  primaryFields: [
+    { key: 'balance', source: 'balance' },
+  ],
+  secondaryFields: [
+    { key: 'member', source: 'memberName', label: 'MEMBER' },
+    { key: 'business', source: 'businessName', label: 'BUSINESS' },
+  ],
+  auxiliaryFields: [
+    { key: 'nextReward', source: 'nextReward', label: 'NEXT REWARD' },
+    { key: 'visits', source: 'visits', label: 'VISITS' },
+  ],
+  backFields: [
+    { key: 'phone', source: 'phone', label: 'Contact Phone' },
+    { key: 'address', source: 'address', label: 'Address' },
+    { key: 'website', source: 'website', label: 'Website' },
+    { key: 'locations', source: 'locations', label: 'Locations' },
+    { key: 'reward', source: 'rewardDescription', label: 'Reward' },
+    { key: 'lastReward', source: 'lastReward', label: 'Latest Reward' },
+    { key: 'terms', source: 'terms', label: 'Terms and Conditions' },
+    { key: 'cardId', source: 'cardId', label: 'Card ID' },
+    { key: 'memberId', source: 'memberId', label: 'Member ID' },
+  ],
+};
+
+/**
+ * Bring a saved layout up to FIELD_LAYOUT_VERSION
+ * Only older layouts gain new fields; once saved at the current version, a field the business
+ * removed stays removed
+ */
+export function upgradeFieldLayout(layout: FieldLayout): FieldLayout {
+  if ((layout.version ?? 0) >= FIELD_LAYOUT_VERSION) {
+    return layout;
+  }
+
+  // Earning a reward changes this field, which is what makes Wallet notify the member
+  const allFields = [...layout.primaryFields, ...layout.secondaryFields, ...layout.auxiliaryFields, ...layout.backFields];
+  const hasLastReward = allFields.some(field => field.source === 'lastReward' || field.key === 'lastReward');
+  return {
+    ...layout,
+    version: FIELD_LAYOUT_VERSION,
+    backFields: hasLastReward ? layout.backFields : [...layout.backFields, { key: 'lastReward', source: 'lastReward' }],
+  };
+}
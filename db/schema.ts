@@ -1,7 +1,9 @@
-import { pgTable, text, serial, timestamp, integer, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, pgSequence, uniqueIndex, text, serial, timestamp, integer, bigint, boolean, jsonb, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { z } from 'zod';
+import { STAMP_ICONS } from './stampStrip';
+import { fieldLayoutSchema } from './fieldLayout';
 
 // Form field configuration for customer enrollment
 export const formFieldSchema = z.object({
@@ -26,7 +28,19 @@ export const formTemplateSchema = z.object({
   termsUrl: z.string().optional(),
 });
 
+// Translated card text; the card's own name, reward and terms are the English version
+export const cardTranslationSchema = z.object({
+  name: z.string().optional(),
+  rewardDescription: z.string().optional(),
+  terms: z.string().optional(),
+  // Translated custom change messages, keyed by pass field key
+  changeMessages: z.record(z.string()).optional(),
+});
+
 // Define the design schema with loyalty type support
+export const BARCODE_FORMATS = ['qr', 'pdf417', 'aztec', 'code128'] as const;
+export type BarcodeFormat = typeof BARCODE_FORMATS[number];
+
 export const designSchema = z.object({
   primaryColor: z.string(),
   backgroundColor: z.string(),
@@ -41,10 +55,28 @@ export const designSchema = z.object({
   pointsPerCurrency: z.number().optional(),
   rewardThreshold: z.number().optional(),
   rewardDescription: z.string().optional(),
+  stampIcon: z.enum(STAMP_ICONS).optional(),
+  stampGlyph: z.string().optional(),
+  fieldLayout: fieldLayoutSchema.optional(),
+  // Branches the card is valid at; all of the business's branches when unset
+  branchIds: z.array(z.number()).optional(),
+  translations: z.object({
+    ar: cardTranslationSchema.optional(),
+  }).optional(),
+  // Symbology for POS scanners that only read some formats; QR when unset
+  barcodeFormat: z.enum(BARCODE_FORMATS).optional(),
+  // Print the member number under the barcode so staff can type it in; on when unset
+  showMemberNumber: z.boolean().optional(),
+  // Time-based barcode that changes every periodSeconds, so screenshots can't be reused
+  rotatingCode: z.object({
+    enabled: z.boolean(),
+    periodSeconds: z.number().int().min(30).max(3600).optional(),
+  }).optional(),
   formTemplate: formTemplateSchema.optional(),
 });
 
 export type Design = z.infer<typeof designSchema>;
+export type CardTranslation = z.infer<typeof cardTranslationSchema>;
 
 export const businesses = pgTable("businesses", {
   id: serial("id").primaryKey(),
@@ -66,6 +98,11 @@ export const branches = pgTable("branches", {
   businessId: integer("business_id").references(() => businesses.id),
   name: text("name").notNull(),
   address: text("address").notNull(),
+  // Coordinates put the branch in pass.json locations so the pass shows on the lock screen nearby
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  openingHours: text("opening_hours"),
+  relevantText: text("relevant_text"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -92,6 +129,9 @@ export const customers = pgTable("customers", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Shared by all passes, so update tags are ordered across every pass a device holds
+export const passUpdateTagSequence = pgSequence("pass_update_tag_seq");
+
 export const customerPasses = pgTable("customer_passes", {
   id: serial("id").primaryKey(),
   customerId: integer("customer_id").references(() => customers.id).notNull(),
@@ -100,8 +140,46 @@ export const customerPasses = pgTable("customer_passes", {
   currentBalance: integer("current_balance").default(0),
   lifetimeBalance: integer("lifetime_balance").default(0),
   lastUpdated: timestamp("last_updated").defaultNow(),
+  // Bumped with lastUpdated whenever anything shown on the pass changes (see passVersionService)
+  // Wallet's passesUpdatedSince tag is the highest update tag the device has seen
+  updateTag: bigint("update_tag", { mode: "number" }).default(sql`nextval('pass_update_tag_seq')`).notNull(),
+  // Inactive passes are voided: Wallet greys them out and staff scans are refused
   isActive: boolean("is_active").default(true),
+  voidedAt: timestamp("voided_at"),
+  voidReason: text("void_reason"),
+  expiresAt: timestamp("expires_at"),
+  // Set when the pass was reissued under a new serial number (e.g. a lost phone)
+  replacedById: integer("replaced_by_id"),
+  // When a staff scan last completed a reward; the pass shows it so Wallet notifies the member
+  lastRewardAt: timestamp("last_reward_at"),
+  // Business pass type the pass was issued under; null for the platform's APPLE_PASS_TYPE_ID
+  // Wallet identifies a pass by pass type and serial, so this never changes after issue
+  passTypeIdentifier: text("pass_type_identifier"),
+  // When the .pkpass was first downloaded and first added to a Wallet, for install analytics
+  firstDownloadedAt: timestamp("first_downloaded_at"),
+  firstInstalledAt: timestamp("first_installed_at"),
+  // Random TOTP secret (hex) behind the pass's rotating code; created the first time the pass needs one
+  rotatingSecret: text("rotating_secret"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Apple signing credentials for businesses that issue passes under their own developer account
+// Businesses without a row use the platform's APPLE_PASS_TYPE_ID certificate
+export const passSigningCredentials = pgTable("pass_signing_credentials", {
+  id: serial("id").primaryKey(),
+  businessId: integer("business_id").references(() => businesses.id).unique().notNull(),
+  // From the certificate subject (UID and OU), so they always match the certificate
+  passTypeIdentifier: text("pass_type_identifier").unique().notNull(),
+  teamIdentifier: text("team_identifier").notNull(),
+  // PEM; certificates are public, only the private key is secret
+  certificate: text("certificate").notNull(),
+  // Issuing WWDR certificate when the .p12 included it; APPLE_WWDR_CERT otherwise
+  wwdrCertificate: text("wwdr_certificate"),
+  // PKCS#8 PEM encrypted with CREDENTIALS_ENCRYPTION_KEY (see signingCredentialService)
+  encryptedPrivateKey: text("encrypted_private_key").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 // Apple Wallet device registrations for push notifications
@@ -115,6 +193,15 @@ export const deviceRegistrations = pgTable("device_registrations", {
   lastUpdated: timestamp("last_updated").defaultNow(),
 });
 
+// Each time a device adds or removes a pass, kept after the registration itself is deleted
+export const walletInstallEvents = pgTable("wallet_install_events", {
+  id: serial("id").primaryKey(),
+  serialNumber: text("serial_number").notNull(),
+  deviceLibraryIdentifier: text("device_library_identifier").notNull(),
+  event: text("event").notNull(), // 'installed', 'uninstalled'
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Authentication tokens for each pass (security)
 export const passAuthTokens = pgTable("pass_auth_tokens", {
   id: serial("id").primaryKey(),
@@ -133,6 +220,56 @@ export const pushNotificationLog = pgTable("push_notification_log", {
   sentAt: timestamp("sent_at").defaultNow(),
 });
 
+// Wallet update pushes waiting to be sent, one per device (see pushQueueService)
+// A pending push absorbs later updates to the same pass, as Wallet always fetches the latest version
+export const pushQueue = pgTable("push_queue", {
+  id: serial("id").primaryKey(),
+  serialNumber: text("serial_number").notNull(),
+  deviceLibraryIdentifier: text("device_library_identifier").notNull(),
+  passTypeIdentifier: text("pass_type_identifier").notNull(),
+  pushToken: text("push_token").notNull(),
+  status: text("status").default("pending").notNull(), // 'pending', 'sending', 'failed'
+  // Pass updates this push stands for
+  updates: integer("updates").default(1).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  // End of the coalescing window, of a retry's backoff, or of a send in progress
+  sendAfter: timestamp("send_after").defaultNow().notNull(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("push_queue_pending_idx")
+    .on(table.serialNumber, table.deviceLibraryIdentifier)
+    .where(sql`${table.status} = 'pending'`),
+]);
+
+// Pushes to every installed pass of a card after the card changed, queued a batch at a time
+export const passRollouts = pgTable("pass_rollouts", {
+  id: serial("id").primaryKey(),
+  cardId: integer("card_id").references(() => loyaltyCards.id).notNull(),
+  status: text("status").default("running").notNull(), // 'running', 'completed', 'cancelled'
+  // Installed passes when the rollout started
+  total: integer("total").notNull(),
+  processed: integer("processed").default(0).notNull(),
+  // Passes are pushed in id order up to maxPassId; passes issued later already have the new design
+  lastPassId: integer("last_pass_id").default(0).notNull(),
+  maxPassId: integer("max_pass_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+// Errors iOS devices report to /v1/log (signature failures, web service errors)
+export const walletDeviceLogs = pgTable("wallet_device_logs", {
+  id: serial("id").primaryKey(),
+  // Derived from the serial number or pass type in the message; null when neither identifies one
+  businessId: integer("business_id").references(() => businesses.id),
+  serialNumber: text("serial_number"),
+  passTypeIdentifier: text("pass_type_identifier"),
+  message: text("message").notNull(),
+  // The message with serials, numbers and dates masked, so repeats of one problem group together
+  fingerprint: text("fingerprint").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   customerPassId: integer("customer_pass_id").references(() => customerPasses.id).notNull(),
@@ -144,6 +281,13 @@ export const transactions = pgTable("transactions", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Values the server records once and keeps across restarts (e.g. when signed barcodes went live)
+export const appSettings = pgTable("app_settings", {
+  key: text("key").primaryKey(),
+  value: text("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const notifications = pgTable("notifications", {
   id: serial("id").primaryKey(),
   businessId: integer("business_id").references(() => businesses.id),
@@ -213,8 +357,13 @@ export type CustomerPass = typeof customerPasses.$inferSelect;
 export type Transaction = typeof transactions.$inferSelect;
 export type Notification = typeof notifications.$inferSelect;
 export type DeviceRegistration = typeof deviceRegistrations.$inferSelect;
+export type WalletInstallEvent = typeof walletInstallEvents.$inferSelect;
+export type PushQueueEntry = typeof pushQueue.$inferSelect;
+export type PassRollout = typeof passRollouts.$inferSelect;
 export type PassAuthToken = typeof passAuthTokens.$inferSelect;
 export type PushNotificationLog = typeof pushNotificationLog.$inferSelect;
+export type WalletDeviceLog = typeof walletDeviceLogs.$inferSelect;
+export type PassSigningCredential = typeof passSigningCredentials.$inferSelect;
 
 export const insertBusinessSchema = createInsertSchema(businesses);
 export const selectBusinessSchema = createSelectSchema(businesses);
\ No newline at end of file
@@ -0,0 +1,107 @@
+// Stamp-grid strip artwork shared by the pass generator (rendered to PNG with sharp)
+// and the card designer previews (rendered as an inline SVG image), so both always match
+
+export const STAMP_ICONS = ['check', 'coffee', 'star', 'paw', 'custom'] as const;
+export type StampIcon = typeof STAMP_ICONS[number];
+
+export interface StampStripOptions {
+  width: number;
+  height: number;
+  maxStamps: number;
+  filledStamps: number;
+  backgroundColor: string;
+  gradientColor?: string;
+  primaryColor: string;
+  textColor: string;
+  icon?: StampIcon;
+  // Data URL of an uploaded glyph, used when icon is 'custom'
+  glyph?: string;
+}
+
+// Icon artwork drawn in a 24x24 box
+const ICON_PATHS: Record<Exclude<StampIcon, 'custom'>, string> = {
+  check: '<path d="M9.5 16.2 5.3 12l-1.4 1.4 5.6 5.6 11-11-1.4-1.4z"/>',
+  coffee: '<path fill-rule="evenodd" d="M4 7h12v6a5 5 0 0 1-5 5H9a5 5 0 0 1-5-5V7zm12 1h1.5a3.5 3.5 0 0 1 0 7H16v-2h1.5a1.5 1.5 0 0 0 0-3H16V8zM3 20h14v2H3z"/><path d="M8 2h1.5v3H8zm3.5 0H13v3h-1.5z"/>',
+  star: '<path d="M12 2l3.09 6.26L22 9.27l-5 4.87 1.18 6.88L12 17.77l-6.18 3.25L7 14.14 2 9.27l6.91-1.01z"/>',
+  paw: '<ellipse cx="5.5" cy="10" rx="2.2" ry="2.8"/><ellipse cx="9.5" cy="5.5" rx="2.2" ry="2.8"/><ellipse cx="14.5" cy="5.5" rx="2.2" ry="2.8"/><ellipse cx="18.5" cy="10" rx="2.2" ry="2.8"/><path d="M12 11c-3 0-6.5 4.2-6.5 7 0 1.7 1.3 3 3 3 1.3 0 2.3-.7 3.5-.7s2.2.7 3.5.7c1.7 0 3-1.3 3-3 0-2.8-3.5-7-6.5-7z"/>',
+};
+
+function normalizeHex(color: string): string {
+  return color.startsWith('#') ? color : `#${color}`;
+}
+
+export function adjustColor(hex: string, amount: number): string {
+  const num = parseInt(hex.replace('#', ''), 16);
+  const r = Math.min(255, Math.max(0, (num >> 16) + amount));
+  const g = Math.min(255, Math.max(0, ((num >> 8) & 0x00FF) + amount));
+  const b = Math.min(255, Math.max(0, (num & 0x0000FF) + amount));
+  return `#${((r << 16) | (g << 8) | b).toString(16).padStart(6, '0')}`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/**
+ * Lay stamps out in one row up to 6, otherwise two rows
+ */
+export function getStampGrid(maxStamps: number): { rows: number; columns: number } {
+  const rows = maxStamps > 6 ? 2 : 1;
+  return { rows, columns: Math.ceil(maxStamps / rows) };
+}
+
+/**
+ * Build the strip as an SVG document
+ * Filled slots use the card's primary color, empty slots a faint outline
+ */
+export function renderStampStripSvg(options: StampStripOptions): string {
+  const { width, height, icon = 'check', glyph } = options;
+  const maxStamps = Math.max(1, Math.round(options.maxStamps));
+  const filledStamps = Math.min(maxStamps, Math.max(0, Math.round(options.filledStamps)));
+  const bgHex = normalizeHex(options.backgroundColor);
+  const gradientHex = options.gradientColor ? normalizeHex(options.gradientColor) : adjustColor(bgHex, -30);
+  const primaryHex = normalizeHex(options.primaryColor);
+  const textHex = normalizeHex(options.textColor);
+
+  const { rows, columns } = getStampGrid(maxStamps);
+  const padding = height * 0.1;
+  const cell = Math.min((width - padding * 2) / columns, (height - padding * 2) / rows);
+  const radius = cell * 0.4;
+  const offsetX = (width - cell * columns) / 2;
+  const offsetY = (height - cell * rows) / 2;
+  const useGlyph = icon === 'custom' && !!glyph;
+
+  const slots: string[] = [];
+  for (let i = 0; i < maxStamps; i++) {
+    const row = Math.floor(i / columns);
+    // Center a short last row
+    const inRow = row === rows - 1 ? maxStamps - columns * (rows - 1) : columns;
+    const rowOffset = ((columns - inRow) * cell) / 2;
+    const cx = offsetX + rowOffset + cell * (i % columns) + cell / 2;
+    const cy = offsetY + cell * row + cell / 2;
+    const filled = i < filledStamps;
+    const iconSize = radius * 1.2;
+    const iconX = cx - iconSize / 2;
+    const iconY = cy - iconSize / 2;
+
+    slots.push(`<circle cx="${cx}" cy="${cy}" r="${radius}" fill="${filled ? primaryHex : textHex}" fill-opacity="${filled ? 1 : 0.12}" stroke="${textHex}" stroke-opacity="${filled ? 0.9 : 0.6}" stroke-width="${Math.max(1, radius * 0.08)}"/>`);
+
+    if (useGlyph) {
+      slots.push(`<image x="${iconX}" y="${iconY}" width="${iconSize}" height="${iconSize}" opacity="${filled ? 1 : 0.3}" preserveAspectRatio="xMidYMid meet" xlink:href="${escapeAttribute(glyph!)}"/>`);
+    } else {
+      const paths = ICON_PATHS[icon === 'custom' ? 'check' : icon];
+      slots.push(`<g transform="translate(${iconX} ${iconY}) scale(${iconSize / 24})" fill="${textHex}" fill-opacity="${filled ? 1 : 0.3}">${paths}</g>`);
+    }
+  }
+
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+    <defs>
+      <linearGradient id="stripGrad" x1="0%" y1="0%" x2="100%" y2="100%">
+        <stop offset="0%" stop-color="${bgHex}"/>
+        <stop offset="100%" stop-color="${gradientHex}"/>
+      </linearGradient>
+    </defs>
+    <rect width="${width}" height="${height}" fill="url(#stripGrad)"/>
+    ${slots.join('\n    ')}
+  </svg>`;
+}
@@ -0,0 +1,59 @@
+// Measure pass-serving latency against a running server
+//
+//   npx tsx scripts/benchmark-pass.ts http://localhost:5000/api/passes/<serial>/download 20
+//
+// For the Wallet web service endpoint (/v1/passes/...) set PASS_AUTH_TOKEN to the pass's auth token.
+// The first request renders the pass artwork; the rest should hit the asset cache.
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))];
+}
+
+async function benchmark(url: string, requests: number) {
+  const headers: Record<string, string> = {};
+  if (process.env.PASS_AUTH_TOKEN) {
+    headers.Authorization = `ApplePass ${process.env.PASS_AUTH_TOKEN}`;
+  }
+
+  const totals: number[] = [];
+  const builds: number[] = [];
+
+  for (let i = 0; i < requests; i++) {
+    const started = performance.now();
+    const res = await fetch(url, { headers });
+    await res.arrayBuffer();
+    const total = performance.now() - started;
+
+    if (!res.ok) {
+      throw new Error(`Request ${i + 1} failed with status ${res.status}`);
+    }
+
+    totals.push(total);
+    const serverTiming = res.headers.get('server-timing')?.match(/pass;dur=(\d+)/);
+    if (serverTiming) {
+      builds.push(parseInt(serverTiming[1]));
+    }
+    console.log(`#${i + 1}: ${total.toFixed(0)}ms${serverTiming ? ` (server ${serverTiming[1]}ms)` : ''}`);
+  }
+
+  const summarize = (label: string, values: number[]) => {
+    if (values.length === 0) return;
+    const sorted = [...values].sort((a, b) => a - b);
+    console.log(`${label}: first ${values[0].toFixed(0)}ms, p50 ${percentile(sorted, 0.5).toFixed(0)}ms, p95 ${percentile(sorted, 0.95).toFixed(0)}ms, max ${sorted[sorted.length - 1].toFixed(0)}ms`);
+  };
+
+  console.log('');
+  summarize('Total', totals);
+  summarize('Server build', builds);
+}
+
+const [url, requests = '20'] = process.argv.slice(2);
+if (!url) {
+  console.error('Usage: npx tsx scripts/benchmark-pass.ts <pass url> [requests]');
+  process.exit(1);
+}
+
+benchmark(url, parseInt(requests)).catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,58 @@
+// Check the pass field layout rules the card designer and API enforce
+//
+//   npx tsx scripts/check-field-layout.ts
+//
+// Wallet rejects pass.json with repeated field keys, and store cards show at most four
+// secondary and auxiliary fields, so layouts breaking either rule must not save. Older layouts
+// gain fields added since, but a field removed from a current layout stays removed.
+import assert from 'node:assert/strict';
+import { DEFAULT_FIELD_LAYOUT, FIELD_LAYOUT_VERSION, fieldLayoutSchema, upgradeFieldLayout, type FieldLayout } from '../db/fieldLayout';
+
+function issues(layout: FieldLayout): string[] {
+  const result = fieldLayoutSchema.safeParse(layout);
+  return result.success ? [] : result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+}
+
+const CASES: Array<{ label: string; layout: FieldLayout; expected: string[] }> = [
+  { label: 'default layout', layout: DEFAULT_FIELD_LAYOUT, expected: [] },
+  {
+    label: 'duplicate key across slots',
+    layout: {
+      ...DEFAULT_FIELD_LAYOUT,
+      backFields: [...DEFAULT_FIELD_LAYOUT.backFields, { key: 'member', source: 'static', value: 'Again' }],
+    },
+    expected: [`backFields.${DEFAULT_FIELD_LAYOUT.backFields.length}.key: Duplicate field key "member"`],
+  },
+  {
+    label: 'duplicate key within a slot',
+    layout: {
+      ...DEFAULT_FIELD_LAYOUT,
+      secondaryFields: [{ key: 'info', source: 'memberName' }, { key: 'info', source: 'businessName' }],
+      auxiliaryFields: [],
+    },
+    expected: ['secondaryFields.1.key: Duplicate field key "info"'],
+  },
+  {
+    label: 'too many front row fields',
+    layout: {
+      ...DEFAULT_FIELD_LAYOUT,
+      auxiliaryFields: [...DEFAULT_FIELD_LAYOUT.auxiliaryFields, { key: 'since', source: 'memberSince' }],
+    },
+    expected: ['auxiliaryFields: At most 4 secondary and auxiliary fields in total'],
+  },
+];
+
+for (const { label, layout, expected } of CASES) {
+  assert.deepEqual(issues(layout), expected, label);
+  console.log(`✅ ${label}`);
+}
+
+const withoutReward = DEFAULT_FIELD_LAYOUT.backFields.filter(field => field.source !== 'lastReward');
+const hasReward = (layout: FieldLayout) => layout.backFields.some(field => field.source === 'lastReward');
+
+assert.ok(hasReward(upgradeFieldLayout({ ...DEFAULT_FIELD_LAYOUT, version: undefined, backFields: withoutReward })));
+console.log('✅ unversioned layout gains the reward field');
+
+const removed = { ...DEFAULT_FIELD_LAYOUT, version: FIELD_LAYOUT_VERSION, backFields: withoutReward };
+assert.equal(upgradeFieldLayout(removed), removed);
+console.log('✅ reward field removed from a current layout stays removed');
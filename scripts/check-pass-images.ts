@@ -0,0 +1,97 @@
+// Check that generated passes only ship images Wallet actually shows
+//
+//   npx tsx scripts/check-pass-images.ts
+//
+// Builds stamp, points and Arabic-named card passes in memory and runs them through the pass
+// inspector. Fails if pass.json is invalid or any image is ignored by the pass style (e.g. a
+// strip on a generic pass). The passes are unsigned, so manifest and signature checks are skipped.
+import type { Business, Customer, LoyaltyCard } from '@db/schema';
+
+const business: Business = {
+  id: 1,
+  name: 'Check Cafe',
+  email: 'check@example.com',
+  password: '',
+  logo: null,
+  phone: '+971 50 000 0000',
+  address: 'Dubai',
+  website: null,
+  stripeCustomerId: null,
+  stripeSubscriptionId: null,
+  subscriptionStatus: null,
+  createdAt: new Date(),
+};
+
+const customer: Customer = {
+  id: 42,
+  businessId: 1,
+  name: 'Test Member',
+  email: 'member@example.com',
+  phone: null,
+  cardId: 1,
+  points: 0,
+  stamps: 3,
+  totalVisits: 3,
+  totalSpent: 0,
+  createdAt: new Date(),
+};
+
+function card(id: number, name: string, design: Partial<LoyaltyCard['design']>): LoyaltyCard {
+  return {
+    id,
+    businessId: business.id,
+    name,
+    design: { primaryColor: '#4F46E5', backgroundColor: '#1E1B4B', loyaltyType: 'stamps', ...design },
+    isActive: true,
+    createdAt: new Date(),
+  };
+}
+
+const CASES: Array<{ label: string; card: LoyaltyCard; balance: number }> = [
+  { label: 'stamp card', card: card(1, 'Coffee Stamps', { maxStamps: 10, stampIcon: 'coffee' }), balance: 3 },
+  { label: 'points card', card: card(2, 'Points Club', { loyaltyType: 'points', rewardThreshold: 100 }), balance: 40 },
+  {
+    label: 'Arabic-named card',
+    card: card(3, 'Rewards', { loyaltyType: 'points', translations: { ar: { name: 'المكافآت' } } }),
+    balance: 10,
+  },
+];
+
+async function check() {
+  // db/index.ts requires DATABASE_URL at import; nothing here queries the database
+  process.env.DATABASE_URL ??= 'postgres://offline@localhost/offline';
+  const { buildPassLayout, buildPassFiles, zipFiles } = await import('../server/services/passService');
+  const { inspectPass } = await import('../server/services/passInspector');
+
+  let failed = false;
+  for (const { label, card, balance } of CASES) {
+    const options = { card, business, customer, currentBalance: balance, serialNumber: `check-${card.id}`, branches: [] };
+    const layout = await buildPassLayout(options);
+    const files = buildPassFiles(
+      options,
+      layout,
+      { passTypeIdentifier: 'pass.com.example.check', teamIdentifier: 'CHECK00000' },
+      'check-authentication-token'
+    );
+    const report = await inspectPass(await zipFiles(files));
+
+    const problems = report.checks.filter(check =>
+      (check.section === 'pass.json' || check.section === 'images') &&
+      (check.status === 'error' || /ignored by|not an image Wallet uses/.test(check.message))
+    );
+    console.log(`${problems.length === 0 ? '✅' : '❌'} ${label} (${report.pass?.style} pass, ${Object.keys(layout.images).length} images)`);
+    for (const problem of problems) {
+      console.log(`   ${problem.section}: ${problem.message}`);
+    }
+    failed = failed || problems.length > 0;
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
+}
+
+check().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+// End-to-end check of the Google Wallet flow against the in-memory fake:
+// enroll -> save the Google Wallet link -> staff scan updates the object -> reissue creates a new object
+//
+//   GOOGLE_WALLET_TRANSPORT=fake npm run dev
+//   LOYALTY_EMAIL=owner@example.com LOYALTY_PASSWORD=... npx tsx scripts/test-google-wallet.ts http://localhost:5000 <card id>
+//
+// Run it with the server's environment (DATABASE_URL, BARCODE_SECRET): the new pass's barcode is read
+// the way the server builds it. LOYALTY_EMAIL must own the card. Each run enrolls a new test member,
+// scans and reissues their pass, so use a development database.
+import crypto from 'crypto';
+
+type LoyaltyObject = {
+  id: string;
+  state: string;
+  loyaltyPoints: { balance: { int?: number; string?: string } };
+};
+
+function fail(message: string): never {
+  throw new Error(`❌ ${message}`);
+}
+
+async function testGoogleWallet(baseUrl: string, cardId: number) {
+  const { db } = await import('../db/index');
+  const { customerPasses } = await import('../db/schema');
+  const { eq } = await import('drizzle-orm');
+  const { buildBarcodeMessage, getRotatingCode } = await import('../server/services/barcodeService');
+
+  // Sign in as the business, as staff scanning would
+  const login = await fetch(`${baseUrl}/api/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: process.env.LOYALTY_EMAIL, password: process.env.LOYALTY_PASSWORD }),
+  });
+  if (!login.ok) {
+    fail(`Login failed (${login.status}); set LOYALTY_EMAIL and LOYALTY_PASSWORD`);
+  }
+  const cookie = login.headers.getSetCookie().map(header => header.split(';')[0]).join('; ');
+  const api = (path: string, init: RequestInit = {}) => fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Cookie: cookie, ...init.headers },
+  });
+
+  if ((await api('/api/dev/google-wallet/objects')).status === 404) {
+    fail('The server is not using the fake Google Wallet client; start it with GOOGLE_WALLET_TRANSPORT=fake');
+  }
+  const findObject = async (serialNumber: string) => {
+    const objects: LoyaltyObject[] = await (await api('/api/dev/google-wallet/objects')).json();
+    return objects.find(object => object.id.endsWith(`.${serialNumber.replace(/[^\w.-]/g, '_')}`));
+  };
+  const save = async (saveUrl: string) => {
+    const saved = await api('/api/dev/google-wallet/save', { method: 'POST', body: JSON.stringify({ saveUrl }) });
+    if (saved.status !== 204) {
+      fail(`Saving the Google Wallet link returned ${saved.status}: ${(await saved.json()).message}`);
+    }
+  };
+
+  const enrolled = await fetch(`${baseUrl}/api/public/enroll`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      cardId,
+      formData: { name: 'Google Wallet Test', email: `google-wallet-${crypto.randomBytes(4).toString('hex')}@example.com` },
+    }),
+  });
+  if (!enrolled.ok) {
+    fail(`Enrollment returned ${enrolled.status}: ${(await enrolled.json()).error}`);
+  }
+  const { passId, googleWalletUrl } = await enrolled.json();
+  if (!googleWalletUrl) {
+    fail('Enrollment returned no Google Wallet link');
+  }
+
+  const pass = await db.query.customerPasses.findFirst({
+    where: eq(customerPasses.id, passId),
+    with: { card: true },
+  });
+  if (!pass?.card) {
+    fail(`Pass ${passId} not found`);
+  }
+  console.log(`✅ Enrolled ${pass.serialNumber}`);
+
+  await save(googleWalletUrl);
+  const saved = await findObject(pass.serialNumber) || fail('Saving the link created no loyalty object');
+  console.log(`✅ Saved object ${saved.id} (${JSON.stringify(saved.loyaltyPoints.balance)})`);
+
+  const scan = await api('/api/staff/scan', {
+    method: 'POST',
+    body: JSON.stringify({
+      qrData: buildBarcodeMessage(pass.cardId, pass.customerId, pass.serialNumber, await getRotatingCode(pass.card, pass.serialNumber)),
+      amount: 1,
+      description: 'Google Wallet test',
+    }),
+  });
+  if (!scan.ok) {
+    fail(`Scan returned ${scan.status}: ${(await scan.json()).message}`);
+  }
+  const scanned = await findObject(pass.serialNumber) || fail('The loyalty object disappeared');
+  if (JSON.stringify(scanned.loyaltyPoints.balance) === JSON.stringify(saved.loyaltyPoints.balance)) {
+    fail(`The scan did not update the object's balance (${JSON.stringify(scanned.loyaltyPoints.balance)})`);
+  }
+  console.log(`✅ Scan updated the balance to ${JSON.stringify(scanned.loyaltyPoints.balance)}`);
+
+  const reissued = await api(`/api/passes/${encodeURIComponent(pass.serialNumber)}/reissue`, { method: 'POST' });
+  if (!reissued.ok) {
+    fail(`Reissue returned ${reissued.status}: ${(await reissued.json()).message}`);
+  }
+  const { pass: replacement, googleWalletUrl: replacementUrl } = await reissued.json();
+  if (!replacementUrl) {
+    fail('Reissue returned no Google Wallet link');
+  }
+  const oldObject = await findObject(pass.serialNumber);
+  const newObject = await findObject(replacement.serialNumber) || fail('Reissue created no loyalty object');
+  if (oldObject?.state !== 'INACTIVE' || newObject.state !== 'ACTIVE') {
+    fail(`Expected the old object INACTIVE and the new one ACTIVE, got ${oldObject?.state} and ${newObject.state}`);
+  }
+  if (JSON.stringify(newObject.loyaltyPoints.balance) !== JSON.stringify(scanned.loyaltyPoints.balance)) {
+    fail(`The new object's balance ${JSON.stringify(newObject.loyaltyPoints.balance)} does not match the old pass`);
+  }
+  await save(replacementUrl);
+  console.log(`✅ Reissued as ${replacement.serialNumber} with a new object ${newObject.id}`);
+}
+
+const [baseUrl, cardId] = process.argv.slice(2);
+if (!baseUrl || !cardId || isNaN(parseInt(cardId))) {
+  console.error('Usage: npx tsx scripts/test-google-wallet.ts <server url> <card id>');
+  process.exit(1);
+}
+
+testGoogleWallet(baseUrl.replace(/\/$/, ''), parseInt(cardId))
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,153 @@
+// End-to-end check of the Wallet update loop against the in-memory APNs fake:
+// register a device -> staff scan -> queued push reaches APNs -> the device sees the pass as updated
+//
+//   APNS_TRANSPORT=fake npm run dev
+//   LOYALTY_EMAIL=owner@example.com LOYALTY_PASSWORD=... npx tsx scripts/test-push-loop.ts http://localhost:5000 <serial>
+//
+// Run it with the server's environment (DATABASE_URL, BARCODE_SECRET, APPLE_PASS_TYPE_ID): the pass's
+// auth token and barcode are read the way the server builds them. LOYALTY_EMAIL must be the pass's business.
+// The scan adds one stamp/point to the pass, so use a development database. Without signing certificates
+// /v1/passes can't build the pass; the update tag is still checked.
+import crypto from 'crypto';
+
+const PUSH_TIMEOUT_MS = 15_000;
+
+function fail(message: string): never {
+  throw new Error(`❌ ${message}`);
+}
+
+async function testPushLoop(baseUrl: string, serialNumber: string) {
+  const { db } = await import('../db/index');
+  const { customerPasses } = await import('../db/schema');
+  const { eq } = await import('drizzle-orm');
+  const { AuthTokenService } = await import('../server/services/authTokenService');
+  const { buildBarcodeMessage, getRotatingCode } = await import('../server/services/barcodeService');
+  const { getIssuedPassTypeIdentifier } = await import('../server/services/signingCredentialService');
+
+  const pass = await db.query.customerPasses.findFirst({
+    where: eq(customerPasses.serialNumber, serialNumber),
+    with: { card: true },
+  });
+  if (!pass?.card) {
+    fail(`Pass ${serialNumber} not found`);
+  }
+  const passTypeIdentifier = getIssuedPassTypeIdentifier(pass) || fail('APPLE_PASS_TYPE_ID is not set');
+  const authToken = await AuthTokenService.getOrCreateToken(serialNumber);
+  const qrData = buildBarcodeMessage(pass.cardId, pass.customerId, serialNumber, await getRotatingCode(pass.card, serialNumber));
+
+  // Sign in as the business, as staff scanning would
+  const login = await fetch(`${baseUrl}/api/login`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ email: process.env.LOYALTY_EMAIL, password: process.env.LOYALTY_PASSWORD }),
+  });
+  if (!login.ok) {
+    fail(`Login failed (${login.status}); set LOYALTY_EMAIL and LOYALTY_PASSWORD`);
+  }
+  const cookie = login.headers.getSetCookie().map(header => header.split(';')[0]).join('; ');
+  const api = (path: string, init: RequestInit = {}) => fetch(`${baseUrl}${path}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', Cookie: cookie, ...init.headers },
+  });
+
+  if ((await api('/api/dev/apns/pushes')).status === 404) {
+    fail('The server is not using the fake APNs transport; start it with APNS_TRANSPORT=fake');
+  }
+
+  const deviceLibraryIdentifier = `test-device-${crypto.randomBytes(4).toString('hex')}`;
+  const pushToken = crypto.randomBytes(32).toString('hex');
+  const passPath = `/v1/passes/${passTypeIdentifier}/${encodeURIComponent(serialNumber)}`;
+  const registrationsPath = `/v1/devices/${deviceLibraryIdentifier}/registrations/${passTypeIdentifier}`;
+  const registrationPath = `${registrationsPath}/${encodeURIComponent(serialNumber)}`;
+  const wallet = { Authorization: `ApplePass ${authToken}` };
+
+  const registered = await fetch(`${baseUrl}${registrationPath}`, {
+    method: 'POST',
+    headers: { ...wallet, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ pushToken }),
+  });
+  if (registered.status !== 201) {
+    fail(`Device registration returned ${registered.status}`);
+  }
+  console.log(`✅ Registered ${deviceLibraryIdentifier}`);
+
+  try {
+    const before = await fetch(`${baseUrl}${registrationsPath}`);
+    if (!before.ok) {
+      fail(`Registrations returned ${before.status}`);
+    }
+    const { lastUpdated: tagBefore } = await before.json();
+
+    // Last-Modified has whole seconds and is only sent once the pass's second is over
+    await new Promise(resolve => setTimeout(resolve, 1100));
+    const passBefore = await fetch(`${baseUrl}${passPath}`, { headers: wallet });
+    await passBefore.arrayBuffer();
+    const lastModifiedBefore = passBefore.ok ? passBefore.headers.get('last-modified') : null;
+    if (!passBefore.ok) {
+      console.log(`ℹ️ /v1/passes returned ${passBefore.status} (signing not configured?); checking the update tag only`);
+    }
+
+    const scan = await api('/api/staff/scan', {
+      method: 'POST',
+      body: JSON.stringify({ qrData, amount: 1, description: 'Push loop test' }),
+    });
+    if (!scan.ok) {
+      fail(`Scan returned ${scan.status}: ${(await scan.json()).message}`);
+    }
+    console.log('✅ Scanned the pass');
+
+    // The push goes out once the queue's coalescing window closes
+    const started = Date.now();
+    let push: { result: { sent: boolean } } | undefined;
+    while (!push && Date.now() - started < PUSH_TIMEOUT_MS) {
+      await new Promise(resolve => setTimeout(resolve, 500));
+      const pushes: Array<{ pushToken: string; result: { sent: boolean } }> = await (await api('/api/dev/apns/pushes')).json();
+      push = pushes.find(recorded => recorded.pushToken === pushToken);
+    }
+    if (!push) {
+      fail(`No push reached the fake APNs within ${PUSH_TIMEOUT_MS / 1000}s`);
+    }
+    if (!push.result.sent) {
+      fail('The push was recorded as failed; clear simulated failures with DELETE /api/dev/apns/pushes');
+    }
+    console.log(`✅ Push recorded after ${Date.now() - started}ms`);
+
+    const after = await fetch(`${baseUrl}${registrationsPath}?passesUpdatedSince=${tagBefore}`);
+    if (after.status !== 200) {
+      fail(`Registrations since ${tagBefore} returned ${after.status}; the pass was not marked as updated`);
+    }
+    const { serialNumbers, lastUpdated: tagAfter } = await after.json();
+    if (!serialNumbers.includes(serialNumber) || !(Number(tagAfter) > Number(tagBefore))) {
+      fail(`Expected ${serialNumber} with a tag above ${tagBefore}, got ${JSON.stringify(serialNumbers)} at ${tagAfter}`);
+    }
+    console.log(`✅ Update tag moved from ${tagBefore} to ${tagAfter}`);
+
+    if (lastModifiedBefore) {
+      await new Promise(resolve => setTimeout(resolve, 1100));
+      const passAfter = await fetch(`${baseUrl}${passPath}`, {
+        headers: { ...wallet, 'If-Modified-Since': lastModifiedBefore },
+      });
+      await passAfter.arrayBuffer();
+      const lastModifiedAfter = passAfter.headers.get('last-modified');
+      if (passAfter.status !== 200 || !lastModifiedAfter || new Date(lastModifiedAfter) <= new Date(lastModifiedBefore)) {
+        fail(`Expected a newer pass than ${lastModifiedBefore}, got ${passAfter.status} (Last-Modified ${lastModifiedAfter})`);
+      }
+      console.log(`✅ Last-Modified moved from ${lastModifiedBefore} to ${lastModifiedAfter}`);
+    }
+  } finally {
+    await fetch(`${baseUrl}${registrationPath}`, { method: 'DELETE', headers: wallet });
+  }
+}
+
+const [baseUrl, serialNumber] = process.argv.slice(2);
+if (!baseUrl || !serialNumber) {
+  console.error('Usage: npx tsx scripts/test-push-loop.ts <server url> <pass serial number>');
+  process.exit(1);
+}
+
+testPushLoop(baseUrl.replace(/\/$/, ''), serialNumber)
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+  });
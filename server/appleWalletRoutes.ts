@@ -1,11 +1,28 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { db } from "@db";
 import { deviceRegistrations, passAuthTokens, customerPasses } from "@db/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, inArray } from "drizzle-orm";
 import { generateEnhancedPass } from "./services/passService";
+import { getRotatingCodePeriod } from "./services/barcodeService";
+import { getIssuedPassTypeIdentifier } from "./services/signingCredentialService";
+import { deviceLogService } from "./services/deviceLogService";
+import { walletInstallService } from "./services/walletInstallService";
 import { createRateLimiter } from "./middleware/rateLimiter";
 import { z } from "zod";
 
+/**
+ * The Last-Modified date for a pass, or null while it could still change within the same second
+ * HTTP dates only have whole seconds; dating a pass before its second is over would let a second
+ * change in that second look unmodified to If-Modified-Since
+ */
+function getPassLastModified(lastUpdated: Date | null, now: Date = new Date()): Date | null {
+  if (!lastUpdated) {
+    return null;
+  }
+  const second = Math.floor(lastUpdated.getTime() / 1000);
+  return second < Math.floor(now.getTime() / 1000) ? new Date(second * 1000) : null;
+}
+
 /**
  * Middleware to validate authentication token from Apple Wallet
  * Checks the Authorization header for a valid token
@@ -80,6 +97,16 @@ export function registerAppleWalletRoutes(app: Express) {
 
         const { pushToken } = validationResult.data;
 
+        // Pushes are sent with the credentials of the pass type registered here, so it must be the pass's own
+        const customerPass = await db.query.customerPasses.findFirst({
+          where: eq(customerPasses.serialNumber, serialNumber),
+          columns: { passTypeIdentifier: true },
+        });
+        if (!customerPass || getIssuedPassTypeIdentifier(customerPass) !== passTypeIdentifier) {
+          console.warn(`❌ Registration for unknown pass ${passTypeIdentifier}/${serialNumber}`);
+          return res.status(404).send();
+        }
+
         // Check if device is already registered
         const existing = await db.query.deviceRegistrations.findFirst({
           where: and(
@@ -108,6 +135,7 @@ export function registerAppleWalletRoutes(app: Express) {
           serialNumber,
           pushToken,
         });
+        await walletInstallService.recordInstall(serialNumber, deviceLibraryIdentifier);
 
         console.log(`✅ Registered device ${deviceLibraryIdentifier} for pass: ${serialNumber}`);
         res.status(201).send();
@@ -131,11 +159,15 @@ export function registerAppleWalletRoutes(app: Express) {
       try {
         const { deviceLibraryIdentifier, serialNumber } = req.params;
 
-        await db.delete(deviceRegistrations)
+        const removed = await db.delete(deviceRegistrations)
           .where(and(
             eq(deviceRegistrations.deviceLibraryIdentifier, deviceLibraryIdentifier),
             eq(deviceRegistrations.serialNumber, serialNumber)
-          ));
+          ))
+          .returning({ id: deviceRegistrations.id });
+        if (removed.length > 0) {
+          await walletInstallService.recordUninstall(serialNumber, deviceLibraryIdentifier);
+        }
 
         console.log(`✅ Unregistered device ${deviceLibraryIdentifier} for pass: ${serialNumber}`);
         res.status(200).send();
@@ -156,15 +188,17 @@ export function registerAppleWalletRoutes(app: Express) {
     '/v1/devices/:deviceLibraryIdentifier/registrations/:passTypeIdentifier',
     async (req: Request, res: Response) => {
       try {
-        const { deviceLibraryIdentifier } = req.params;
+        const { deviceLibraryIdentifier, passTypeIdentifier } = req.params;
         const passesUpdatedSince = req.query.passesUpdatedSince as string;
 
-        // Find all passes for this device
+        // Find this device's passes of the requested pass type
         const registrations = await db.query.deviceRegistrations.findMany({
-          where: eq(deviceRegistrations.deviceLibraryIdentifier, deviceLibraryIdentifier),
+          where: and(
+            eq(deviceRegistrations.deviceLibraryIdentifier, deviceLibraryIdentifier),
+            eq(deviceRegistrations.passTypeIdentifier, passTypeIdentifier)
+          ),
           columns: {
             serialNumber: true,
-            lastUpdated: true,
           },
         });
 
@@ -172,28 +206,32 @@ export function registerAppleWalletRoutes(app: Express) {
           return res.status(204).send();
         }
 
-        // Filter by update time if provided
-        let serialNumbers = registrations.map(r => r.serialNumber);
+        const passes = await db.query.customerPasses.findMany({
+          where: inArray(customerPasses.serialNumber, registrations.map(r => r.serialNumber)),
+          columns: {
+            serialNumber: true,
+            updateTag: true,
+          },
+        });
 
-        if (passesUpdatedSince) {
-          const sinceDate = new Date(passesUpdatedSince);
-          serialNumbers = registrations
-            .filter(r => r.lastUpdated && r.lastUpdated > sinceDate)
-            .map(r => r.serialNumber);
+        if (passes.length === 0) {
+          return res.status(204).send();
         }
 
-        if (serialNumbers.length === 0) {
+        // The tag is the highest update tag the device has seen; anything changed since has a higher one
+        // Tags from before update tags existed were timestamps, so those devices get every pass once
+        const since = /^\d+$/.test(passesUpdatedSince || '') ? Number(passesUpdatedSince) : null;
+        const updatedPasses = since === null ? passes : passes.filter(p => p.updateTag > since);
+
+        if (updatedPasses.length === 0) {
           return res.status(204).send();
         }
 
-        // Return current timestamp as lastUpdated tag
-        const lastUpdated = new Date().toISOString();
-
-        console.log(`✅ Returned ${serialNumbers.length} passes for device ${deviceLibraryIdentifier}`);
+        console.log(`✅ Returned ${updatedPasses.length} passes for device ${deviceLibraryIdentifier}`);
 
         res.json({
-          serialNumbers,
-          lastUpdated,
+          serialNumbers: updatedPasses.map(p => p.serialNumber),
+          lastUpdated: String(Math.max(...passes.map(p => p.updateTag))),
         });
       } catch (error: any) {
         console.error('❌ Get registrations error:', error);
@@ -212,8 +250,9 @@ export function registerAppleWalletRoutes(app: Express) {
     '/v1/passes/:passTypeIdentifier/:serialNumber',
     validatePassAuth,
     async (req: Request, res: Response) => {
+      const started = Date.now();
       try {
-        const { serialNumber } = req.params;
+        const { passTypeIdentifier, serialNumber } = req.params;
 
         // Find the customer pass
         const customerPass = await db.query.customerPasses.findFirst({
@@ -228,16 +267,18 @@ export function registerAppleWalletRoutes(app: Express) {
           },
         });
 
-        if (!customerPass || !customerPass.card) {
+        if (!customerPass || !customerPass.card || getIssuedPassTypeIdentifier(customerPass) !== passTypeIdentifier) {
           console.warn(`❌ Pass not found: ${serialNumber}`);
           return res.status(404).send();
         }
 
-        // Check if pass was modified since If-Modified-Since header
+        // Check if pass was modified since If-Modified-Since header, at the whole seconds HTTP dates have
+        // Rotating codes change with time, so a refresh always gets a freshly built pass
         const ifModifiedSince = req.headers['if-modified-since'];
-        if (ifModifiedSince && customerPass.lastUpdated) {
+        const rotating = !!getRotatingCodePeriod(customerPass.card);
+        if (ifModifiedSince && customerPass.lastUpdated && !rotating) {
           const modifiedDate = new Date(ifModifiedSince);
-          if (customerPass.lastUpdated <= modifiedDate) {
+          if (Math.floor(customerPass.lastUpdated.getTime() / 1000) * 1000 <= modifiedDate.getTime()) {
             console.log(`✅ Pass not modified: ${serialNumber}`);
             return res.status(304).send(); // Not modified
           }
@@ -250,13 +291,22 @@ export function registerAppleWalletRoutes(app: Express) {
           customer: customerPass.customer || undefined,
           currentBalance: customerPass.currentBalance || 0,
           serialNumber: customerPass.serialNumber,
+          voided: customerPass.isActive === false,
+          expiresAt: customerPass.expiresAt,
+          lastRewardAt: customerPass.lastRewardAt,
+          passTypeIdentifier: customerPass.passTypeIdentifier,
         });
 
         // Set headers
         res.set({
           'Content-Type': 'application/vnd.apple.pkpass',
-          'Last-Modified': customerPass.lastUpdated?.toUTCString() || new Date().toUTCString(),
+          // Build time, for measuring pass-serving latency (see scripts/benchmark-pass.ts)
+          'Server-Timing': `pass;dur=${Date.now() - started}`,
         });
+        const lastModified = rotating ? null : getPassLastModified(customerPass.lastUpdated);
+        if (lastModified) {
+          res.set('Last-Modified', lastModified.toUTCString());
+        }
 
         console.log(`✅ Sent updated pass: ${serialNumber}`);
         res.send(passBuffer);
@@ -272,11 +322,12 @@ export function registerAppleWalletRoutes(app: Express) {
    * POST /v1/log
    *
    * Called by Apple Wallet when there are errors on the device
+   * Stored for the Device Logs page (deviceLogService)
    */
   app.post('/v1/log', async (req: Request, res: Response) => {
     try {
       const { logs } = req.body;
-      console.log('📱 Apple Wallet device logs:', JSON.stringify(logs, null, 2));
+      await deviceLogService.record(logs);
       res.status(200).send();
     } catch (error: any) {
       console.error('❌ Log endpoint error:', error);
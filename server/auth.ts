@@ -9,6 +9,7 @@ import { db } from "@db";
 import { eq } from "drizzle-orm";
 import { fromZodError } from "zod-validation-error";
 import MemoryStore from "memorystore";
+import { bumpBusinessPassVersions } from "./services/passVersionService";
 
 declare global {
   namespace Express {
@@ -193,6 +194,9 @@ export function setupAuth(app: Express) {
       if (!updated) {
         return res.status(404).json({ message: "Business not found" });
       }
+
+      // The logo and contact details are shown on every pass
+      await bumpBusinessPassVersions(updated.id);
       
       const { password: _, ...safeData } = updated;
       res.json(safeData);
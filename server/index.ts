@@ -4,6 +4,10 @@ import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { getStripeSync } from "./stripeClient";
 import { WebhookHandlers } from "./webhookHandlers";
+import { pushQueueService } from "./services/pushQueueService";
+import { passRolloutService } from "./services/passRolloutService";
+import { rotatingCodeService } from "./services/rotatingCodeService";
+import { loadLegacyBarcodeWindow } from "./services/barcodeService";
 
 const app = express();
 
@@ -135,5 +139,9 @@ app.use((req, res, next) => {
   const PORT = 5000;
   server.listen(PORT, "0.0.0.0", () => {
     log(`serving on port ${PORT}`);
+    pushQueueService.start();
+    passRolloutService.start();
+    rotatingCodeService.start();
+    loadLegacyBarcodeWindow();
   });
 })();
\ No newline at end of file
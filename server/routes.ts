@@ -1,18 +1,36 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { db } from "@db";
-import { businesses, branches, customers, loyaltyCards, notifications, customerPasses, transactions } from "@db/schema";
+import { businesses, branches, customers, loyaltyCards, notifications, customerPasses, transactions, type LoyaltyCard } from "@db/schema";
+import { fieldLayoutSchema } from "@db/fieldLayout";
 import { eq, count, sql, desc, and } from "drizzle-orm";
-import { processImage, validateImage } from "./services/imageService";
-import { generateAppleWalletPass, generateEnhancedPass } from "./services/passService";
+import { z } from "zod";
+import { processImage, validateImage, decodeImageDataUrl } from "./services/imageService";
+import { generateEnhancedPass, generatePassBundle, generateIconPng, getMonogram, resolveLogo } from "./services/passService";
+import { PassSigningError } from "./services/passSigner";
+import { parseBarcodeMessage, parseMemberNumber, getRotatingCode, verifyRotatingCode, BarcodeError, type BarcodeData } from "./services/barcodeService";
 import { diagnosePassCertificates, formatPEM } from "./services/certificateService";
+import { inspectPass } from "./services/passInspector";
+import { signingCredentialService } from "./services/signingCredentialService";
+import { renderPassPreview, type PassPreviewOptions } from "./services/passPreviewService";
+import { PASS_LANGUAGES, type PassLanguage } from "./services/passLocalization";
 import { execSync } from "child_process";
 import writeCerts from "./helpers/writeCerts";
 import { stripeService } from "./stripeService";
 import { getStripePublishableKey, getUncachableStripeClient } from "./stripeClient";
 import { setupAuth } from "./auth";
 import { registerAppleWalletRoutes } from "./appleWalletRoutes";
-import { apnsService } from "./services/apnsService";
+import { apnsService, FakeAPNsTransport } from "./services/apnsService";
+import { pushQueueService } from "./services/pushQueueService";
+import { pushMonitorService } from "./services/pushMonitorService";
+import { passRolloutService } from "./services/passRolloutService";
+import { googleWalletService, FakeGoogleWalletClient } from "./services/googleWalletService";
+import { passLifecycleService, getPassStatus, getPassStatusMessage } from "./services/passLifecycleService";
+import { buildWebPass, buildWebPassManifest, WEB_PASS_TRANSACTION_LIMIT } from "./services/webPassService";
+import { AuthTokenService } from "./services/authTokenService";
+import { passVersionBump, bumpCardPassVersions, bumpBusinessPassVersions } from "./services/passVersionService";
+import { deviceLogService, canViewUnattributedLogs, getDeviceLogRetentionDays } from "./services/deviceLogService";
+import { walletInstallService } from "./services/walletInstallService";
 
 function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (!req.isAuthenticated() || !req.user) {
@@ -25,6 +43,136 @@ function getBusinessId(req: Request): number {
   return (req.user as any)?.id;
 }
 
+// Find the pass behind a member number typed in by staff, as if its barcode had been scanned
+// Only the business's own members are found; a member with passes on several cards is ambiguous
+async function resolveMemberNumber(businessId: number, customerId: number): Promise<BarcodeData> {
+  const customer = await db.query.customers.findFirst({
+    where: and(eq(customers.id, customerId), eq(customers.businessId, businessId)),
+  });
+  if (!customer) {
+    throw new BarcodeError(`No member #${customerId} found`);
+  }
+
+  const passes = (await db.query.customerPasses.findMany({
+    where: eq(customerPasses.customerId, customerId),
+    orderBy: [desc(customerPasses.createdAt)],
+  })).filter(pass => !pass.replacedById);
+
+  if (passes.length === 0) {
+    throw new BarcodeError(`Member #${customerId} has no pass yet`);
+  }
+  if (new Set(passes.map(pass => pass.cardId)).size > 1) {
+    throw new BarcodeError(`Member #${customerId} has more than one card. Scan their barcode instead.`);
+  }
+
+  return { cardId: passes[0].cardId, customerId, serial: passes[0].serialNumber, legacy: false };
+}
+
+// Keep the Google Wallet loyalty class in step with the card design
+// Failures are logged only - Google Wallet must never block card edits
+async function syncGoogleWalletClass(req: Request, card: LoyaltyCard) {
+  if (!googleWalletService.isEnabled()) {
+    return;
+  }
+
+  try {
+    const business = await db.query.businesses.findFirst({
+      where: eq(businesses.id, card.businessId!),
+    });
+    if (!business) {
+      return;
+    }
+
+    const host = req.get('host') || 'localhost:5000';
+    const protocol = req.protocol || 'https';
+    await googleWalletService.syncCardClass(card, business, `${protocol}://${host}`);
+  } catch (error: any) {
+    console.error('⚠️ Failed to sync Google Wallet class:', error.message);
+  }
+}
+
+// Load a customer pass by serial number, only if it belongs to the signed-in business
+async function findBusinessPass(req: Request, serialNumber: string) {
+  const pass = await db.query.customerPasses.findFirst({
+    where: eq(customerPasses.serialNumber, serialNumber),
+    with: { card: true },
+  });
+  return pass && pass.card?.businessId === getBusinessId(req) ? pass : undefined;
+}
+
+// Load a customer pass with its customer, card and business
+async function loadFullPass(serialNumber: string) {
+  const pass = await db.query.customerPasses.findFirst({
+    where: eq(customerPasses.serialNumber, serialNumber),
+    with: {
+      customer: true,
+      card: {
+        with: {
+          business: true
+        }
+      }
+    }
+  });
+  return pass?.card?.business && pass.customer ? pass : undefined;
+}
+
+// Whether the request carries the pass's own auth token (?token=)
+// The token is the one Wallet uses, so a link with it is as private as the pass itself
+async function hasPassToken(req: Request, serialNumber: string) {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  return !!token && await AuthTokenService.validateToken(serialNumber, token);
+}
+
+// Load a customer pass for the web pass page, only with the pass's own auth token
+async function findWebPass(req: Request) {
+  const { serialNumber } = req.params;
+  if (!(await hasPassToken(req, serialNumber))) {
+    return undefined;
+  }
+  return loadFullPass(serialNumber);
+}
+
+// ?scale=1|2|3 and ?lang=en|ar for pass preview images
+function parsePreviewOptions(query: Request['query']): PassPreviewOptions {
+  const scale = Number(query.scale);
+  const language = String(query.lang || 'en') as PassLanguage;
+  return {
+    scale: scale === 1 || scale === 3 ? scale : 2,
+    language: PASS_LANGUAGES.includes(language) ? language : 'en',
+  };
+}
+
+// Optional branch details used on passes
+// Coordinates come as a pair since a pass location needs both
+function parseBranchDetails(body: any): { error: string } | {
+  latitude: number | null;
+  longitude: number | null;
+  openingHours: string | null;
+  relevantText: string | null;
+} {
+  const hasLatitude = body.latitude !== undefined && body.latitude !== null && body.latitude !== '';
+  const hasLongitude = body.longitude !== undefined && body.longitude !== null && body.longitude !== '';
+  if (hasLatitude !== hasLongitude) {
+    return { error: "Latitude and longitude must be provided together" };
+  }
+
+  const latitude = hasLatitude ? Number(body.latitude) : null;
+  const longitude = hasLongitude ? Number(body.longitude) : null;
+  if (latitude !== null && (!Number.isFinite(latitude) || latitude < -90 || latitude > 90)) {
+    return { error: "Latitude must be between -90 and 90" };
+  }
+  if (longitude !== null && (!Number.isFinite(longitude) || longitude < -180 || longitude > 180)) {
+    return { error: "Longitude must be between -180 and 180" };
+  }
+
+  return {
+    latitude,
+    longitude,
+    openingHours: body.openingHours?.trim() || null,
+    relevantText: body.relevantText?.trim() || null,
+  };
+}
+
 export function registerRoutes(app: Express): Server {
   const httpServer = createServer(app);
 
@@ -195,6 +343,21 @@ export function registerRoutes(app: Express): Server {
     res.json(cohorts);
   });
 
+  // Wallet install funnel: downloads, adds, removals and time to install
+  app.get("/api/analytics/wallet-installs", requireAuth, async (req, res) => {
+    const businessId = getBusinessId(req);
+    const metrics = await walletInstallService.getMetrics(businessId);
+    res.json(metrics);
+  });
+
+  app.get("/api/analytics/wallet-installs/timeline", requireAuth, async (req, res) => {
+    const businessId = getBusinessId(req);
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365);
+    const cardId = parseInt(req.query.cardId as string) || undefined;
+    const timeline = await walletInstallService.getTimeline(businessId, days, cardId);
+    res.json(timeline);
+  });
+
 
   // Branches endpoints
   app.get("/api/branches", requireAuth, async (req, res) => {
@@ -209,6 +372,10 @@ export function registerRoutes(app: Express): Server {
   app.post("/api/branches", requireAuth, async (req, res) => {
     const businessId = getBusinessId(req);
     const { name, address } = req.body;
+    const details = parseBranchDetails(req.body);
+    if ('error' in details) {
+      return res.status(400).json({ message: details.error });
+    }
 
     // Check branch limit
     const [{ count: branchCount }] = await db
@@ -222,9 +389,12 @@ export function registerRoutes(app: Express): Server {
 
     const newBranch = await db
       .insert(branches)
-      .values({ businessId, name, address })
+      .values({ businessId, name, address, ...details })
       .returning();
 
+    // Branch addresses, hours and locations are shown on passes
+    await bumpBusinessPassVersions(businessId);
+
     res.json(newBranch[0]);
   });
 
@@ -232,10 +402,14 @@ export function registerRoutes(app: Express): Server {
     const businessId = getBusinessId(req);
     const branchId = parseInt(req.params.id);
     const { name, address } = req.body;
+    const details = parseBranchDetails(req.body);
+    if ('error' in details) {
+      return res.status(400).json({ message: details.error });
+    }
 
     const updatedBranch = await db
       .update(branches)
-      .set({ name, address })
+      .set({ name, address, ...details })
       .where(and(
         eq(branches.id, branchId),
         eq(branches.businessId, businessId)
@@ -246,6 +420,8 @@ export function registerRoutes(app: Express): Server {
       return res.status(404).json({ message: "Branch not found" });
     }
 
+    await bumpBusinessPassVersions(businessId);
+
     res.json(updatedBranch[0]);
   });
 
@@ -265,6 +441,8 @@ export function registerRoutes(app: Express): Server {
       return res.status(404).json({ message: "Branch not found" });
     }
 
+    await bumpBusinessPassVersions(businessId);
+
     res.json({ message: "Branch deleted successfully" });
   });
 
@@ -297,6 +475,22 @@ export function registerRoutes(app: Express): Server {
         processedDesign.logo = processed.data;
       }
 
+      // Uploaded stamp glyphs only ever render at stamp size
+      if (design.stampGlyph) {
+        if (!validateImage(design.stampGlyph)) {
+          return res.status(400).json({ message: "Invalid stamp image format or size" });
+        }
+        const processed = await processImage(design.stampGlyph, 128);
+        processedDesign.stampGlyph = processed.data;
+      }
+
+      if (design.fieldLayout) {
+        const layoutResult = fieldLayoutSchema.safeParse(design.fieldLayout);
+        if (!layoutResult.success) {
+          return res.status(400).json({ message: `Invalid field layout: ${layoutResult.error.issues[0].message}` });
+        }
+      }
+
       const newCard = await db
         .insert(loyaltyCards)
         .values({
@@ -307,6 +501,8 @@ export function registerRoutes(app: Express): Server {
         })
         .returning();
 
+      await syncGoogleWalletClass(req, newCard[0]);
+
       res.json(newCard[0]);
     } catch (error: any) {
       console.error("Error creating card:", error);
@@ -334,6 +530,22 @@ export function registerRoutes(app: Express): Server {
         processedDesign.logo = processed.data;
       }
 
+      // Uploaded stamp glyphs only ever render at stamp size
+      if (design.stampGlyph) {
+        if (!validateImage(design.stampGlyph)) {
+          return res.status(400).json({ message: "Invalid stamp image format or size" });
+        }
+        const processed = await processImage(design.stampGlyph, 128);
+        processedDesign.stampGlyph = processed.data;
+      }
+
+      if (design.fieldLayout) {
+        const layoutResult = fieldLayoutSchema.safeParse(design.fieldLayout);
+        if (!layoutResult.success) {
+          return res.status(400).json({ message: `Invalid field layout: ${layoutResult.error.issues[0].message}` });
+        }
+      }
+
       const updatedCard = await db
         .update(loyaltyCards)
         .set({
@@ -350,6 +562,12 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Card not found" });
       }
 
+      await syncGoogleWalletClass(req, updatedCard[0]);
+
+      // Issued passes show the design, so Wallet must fetch them again
+      await bumpCardPassVersions(cardId);
+      await passRolloutService.createRollout(cardId);
+
       res.json(updatedCard[0]);
     } catch (error: any) {
       console.error("Error updating card:", error);
@@ -357,6 +575,38 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Progress of pushing the latest card change to installed passes
+  app.get("/api/cards/:id/rollout", requireAuth, async (req, res) => {
+    try {
+      const cardId = parseInt(req.params.id);
+      if (isNaN(cardId)) {
+        return res.status(400).json({ message: "Invalid card ID" });
+      }
+      const rollout = await passRolloutService.getLatestRollout(cardId, getBusinessId(req));
+      res.json(rollout);
+    } catch (error: any) {
+      console.error("Error loading pass rollout:", error);
+      res.status(500).json({ message: "Failed to load pass update progress" });
+    }
+  });
+
+  app.post("/api/cards/:id/rollout/cancel", requireAuth, async (req, res) => {
+    try {
+      const cardId = parseInt(req.params.id);
+      if (isNaN(cardId)) {
+        return res.status(400).json({ message: "Invalid card ID" });
+      }
+      const rollout = await passRolloutService.cancelRollout(cardId, getBusinessId(req));
+      if (!rollout) {
+        return res.status(404).json({ message: "No update in progress" });
+      }
+      res.json(rollout);
+    } catch (error: any) {
+      console.error("Error cancelling pass rollout:", error);
+      res.status(500).json({ message: "Failed to cancel the update" });
+    }
+  });
+
   app.delete("/api/cards/:id", requireAuth, async (req, res) => {
     try {
       const businessId = getBusinessId(req);
@@ -421,6 +671,10 @@ export function registerRoutes(app: Express): Server {
 
     } catch (error: any) {
       console.error("Error generating pass:", error);
+      // Signing problems are configuration errors; report which one so it can be fixed
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ 
         message: "Failed to generate pass",
         error: error.message
@@ -428,6 +682,44 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // PNG of the card as a pass, with sample data (?balance=), for posters and the designer
+  app.get("/api/cards/:id/preview.png", requireAuth, async (req, res) => {
+    try {
+      const businessId = getBusinessId(req);
+      const cardId = parseInt(req.params.id);
+
+      const card = await db.query.loyaltyCards.findFirst({
+        where: and(
+          eq(loyaltyCards.id, cardId),
+          eq(loyaltyCards.businessId, businessId)
+        ),
+        with: {
+          business: true
+        }
+      });
+
+      if (!card || !card.business) {
+        return res.status(404).json({ message: "Card not found" });
+      }
+
+      const image = await renderPassPreview({
+        card,
+        business: card.business,
+        currentBalance: Math.max(0, parseInt(req.query.balance as string) || 0),
+        serialNumber: `card-${cardId}-preview`,
+      }, parsePreviewOptions(req.query));
+
+      res.set({
+        'Content-Type': 'image/png',
+        'Cache-Control': 'no-cache',
+      });
+      res.send(image);
+    } catch (error: any) {
+      console.error("Error rendering card preview:", error);
+      res.status(500).json({ message: "Failed to render card preview" });
+    }
+  });
+
   // Generate wallet pass for existing card (POST for manual downloads)
   app.post("/api/cards/:id/wallet-pass", requireAuth, async (req, res) => {
     try {
@@ -468,6 +760,9 @@ export function registerRoutes(app: Express): Server {
 
     } catch (error: any) {
       console.error('Error generating pass:', error);
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ 
         message: "Failed to generate pass",
         error: error.message
@@ -521,7 +816,8 @@ export function registerRoutes(app: Express): Server {
     const customerList = await db.query.customers.findMany({
       where: eq(customers.businessId, businessId),
     });
-    res.json(customerList);
+    const installedCustomerIds = new Set(await walletInstallService.getInstalledCustomerIds(businessId));
+    res.json(customerList.map(customer => ({ ...customer, walletInstalled: installedCustomerIds.has(customer.id) })));
   });
 
   // Customer wallet pass generation endpoint - creates personalized pass for customer
@@ -555,12 +851,7 @@ export function registerRoutes(app: Express): Server {
       }
 
       // Check for existing pass or create new one
-      let customerPass = await db.query.customerPasses.findFirst({
-        where: and(
-          eq(customerPasses.customerId, customerId),
-          eq(customerPasses.cardId, cardId)
-        ),
-      });
+      let customerPass = await passLifecycleService.getCurrentPass(customerId, cardId);
 
       const design = card.design as any;
       const loyaltyType = design.loyaltyType || 'stamps';
@@ -575,6 +866,7 @@ export function registerRoutes(app: Express): Server {
           serialNumber,
           currentBalance: 0,
           lifetimeBalance: 0,
+          passTypeIdentifier: await signingCredentialService.getBusinessPassTypeIdentifier(business.id),
         }).returning();
         customerPass = newPass;
       } else {
@@ -587,15 +879,24 @@ export function registerRoutes(app: Express): Server {
         business,
         customer,
         currentBalance,
-        serialNumber: customerPass.serialNumber
+        serialNumber: customerPass.serialNumber,
+        voided: customerPass.isActive === false,
+        expiresAt: customerPass.expiresAt,
+        lastRewardAt: customerPass.lastRewardAt,
+        passTypeIdentifier: customerPass.passTypeIdentifier,
       });
 
+      await walletInstallService.recordDownload([customerPass.serialNumber]);
+
       res.setHeader("Content-Type", "application/vnd.apple.pkpass");
       res.setHeader("Content-disposition", `attachment; filename=${card.name.replace(/\s+/g, '_')}.pkpass`);
       res.send(passBuffer);
 
     } catch (error: any) {
       console.error("Error generating pass:", error);
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ message: "Failed to generate pass", error: error.message });
     }
   });
@@ -623,12 +924,7 @@ export function registerRoutes(app: Express): Server {
       }
 
       // Check if customer already has this card
-      const existingPass = await db.query.customerPasses.findFirst({
-        where: and(
-          eq(customerPasses.customerId, customerId),
-          eq(customerPasses.cardId, cardId)
-        ),
-      });
+      const existingPass = await passLifecycleService.getCurrentPass(customerId, cardId);
 
       if (existingPass) {
         return res.status(400).json({ 
@@ -645,6 +941,7 @@ export function registerRoutes(app: Express): Server {
         serialNumber,
         currentBalance: 0,
         lifetimeBalance: 0,
+        passTypeIdentifier: await signingCredentialService.getBusinessPassTypeIdentifier(card.businessId),
       }).returning();
 
       // Update customer's cardId if not set
@@ -666,34 +963,149 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Pass lifecycle endpoints - void, reactivate, expire and reissue customer passes
+  app.get("/api/customers/:customerId/passes", requireAuth, async (req, res) => {
+    const businessId = getBusinessId(req);
+    const customerId = parseInt(req.params.customerId);
+
+    const customer = await db.query.customers.findFirst({
+      where: and(
+        eq(customers.id, customerId),
+        eq(customers.businessId, businessId)
+      ),
+    });
+
+    if (!customer) {
+      return res.status(404).json({ message: "Customer not found" });
+    }
+
+    const passes = await db.query.customerPasses.findMany({
+      where: eq(customerPasses.customerId, customerId),
+      orderBy: [desc(customerPasses.createdAt)],
+    });
+
+    res.json(passes.map(pass => ({ ...pass, status: getPassStatus(pass) })));
+  });
+
+  app.post("/api/passes/:serialNumber/void", requireAuth, async (req, res) => {
+    try {
+      const pass = await findBusinessPass(req, req.params.serialNumber);
+      if (!pass) {
+        return res.status(404).json({ message: "Pass not found" });
+      }
+
+      if (pass.isActive === false) {
+        return res.status(400).json({ message: "Pass is already voided" });
+      }
+
+      const updated = await passLifecycleService.voidPass(pass, req.body.reason?.trim() || null);
+      res.json({ ...updated, status: getPassStatus(updated) });
+    } catch (error: any) {
+      console.error("Error voiding pass:", error);
+      res.status(500).json({ message: "Failed to void pass" });
+    }
+  });
+
+  app.post("/api/passes/:serialNumber/reactivate", requireAuth, async (req, res) => {
+    try {
+      const pass = await findBusinessPass(req, req.params.serialNumber);
+      if (!pass) {
+        return res.status(404).json({ message: "Pass not found" });
+      }
+
+      if (pass.replacedById) {
+        return res.status(400).json({ message: "Pass was reissued and can't be reactivated" });
+      }
+      if (pass.isActive !== false) {
+        return res.status(400).json({ message: "Pass is not voided" });
+      }
+
+      const updated = await passLifecycleService.reactivatePass(pass);
+      res.json({ ...updated, status: getPassStatus(updated) });
+    } catch (error: any) {
+      console.error("Error reactivating pass:", error);
+      res.status(500).json({ message: "Failed to reactivate pass" });
+    }
+  });
+
+  app.put("/api/passes/:serialNumber/expiration", requireAuth, async (req, res) => {
+    try {
+      const pass = await findBusinessPass(req, req.params.serialNumber);
+      if (!pass) {
+        return res.status(404).json({ message: "Pass not found" });
+      }
+
+      // null clears the expiration date
+      const { expiresAt } = req.body;
+      const expirationDate = expiresAt ? new Date(expiresAt) : null;
+      if (expirationDate && isNaN(expirationDate.getTime())) {
+        return res.status(400).json({ message: "Invalid expiration date" });
+      }
+
+      const updated = await passLifecycleService.setExpiration(pass, expirationDate);
+      res.json({ ...updated, status: getPassStatus(updated) });
+    } catch (error: any) {
+      console.error("Error setting pass expiration:", error);
+      res.status(500).json({ message: "Failed to set pass expiration" });
+    }
+  });
+
+  app.post("/api/passes/:serialNumber/reissue", requireAuth, async (req, res) => {
+    try {
+      const pass = await findBusinessPass(req, req.params.serialNumber);
+      if (!pass) {
+        return res.status(404).json({ message: "Pass not found" });
+      }
+
+      if (pass.replacedById) {
+        return res.status(400).json({ message: "Pass was already reissued" });
+      }
+
+      const host = req.get('host') || 'localhost:5000';
+      const protocol = req.protocol || 'https';
+      const { pass: replacement, googleWalletUrl } = await passLifecycleService.reissuePass(pass, `${protocol}://${host}`);
+
+      res.json({
+        pass: { ...replacement, status: getPassStatus(replacement) },
+        downloadUrl: `${protocol}://${host}/api/passes/${replacement.serialNumber}/download`,
+        googleWalletUrl,
+      });
+    } catch (error: any) {
+      console.error("Error reissuing pass:", error);
+      res.status(500).json({ message: "Failed to reissue pass" });
+    }
+  });
+
   // Staff scan endpoint - add stamps/points when customer visits
   app.post("/api/staff/scan", requireAuth, async (req, res) => {
     try {
       const businessId = getBusinessId(req);
       const { qrData, amount = 1, description } = req.body;
 
-      // Parse QR code data
+      // Parse and verify QR code data, or find the pass for a typed-in member number
       let scanData;
       try {
-        scanData = JSON.parse(qrData);
-      } catch {
+        const memberNumber = parseMemberNumber(qrData);
+        scanData = memberNumber
+          ? await resolveMemberNumber(businessId, memberNumber)
+          : parseBarcodeMessage(qrData);
+      } catch (error) {
+        if (!(error instanceof BarcodeError)) {
+          throw error;
+        }
         // Try legacy format: CUSTOMER-{cardId}
-        if (qrData?.startsWith('CUSTOMER-')) {
+        if (typeof qrData === 'string' && qrData.startsWith('CUSTOMER-')) {
           const cardId = parseInt(qrData.split('-')[1]);
           return res.status(400).json({ 
             message: "Legacy QR code format. Customer needs to download a new pass.",
             cardId 
           });
         }
-        return res.status(400).json({ message: "Invalid QR code format" });
+        return res.status(400).json({ message: error.message });
       }
 
       const { cardId, customerId, serial } = scanData;
 
-      if (!cardId) {
-        return res.status(400).json({ message: "Invalid QR code - missing card info" });
-      }
-
       // If no customerId, this is a preview pass (not issued to a customer)
       if (!customerId) {
         return res.status(400).json({ 
@@ -703,8 +1115,10 @@ export function registerRoutes(app: Express): Server {
       }
 
       // Find the customer pass
+      // The serial pins the exact pass, so a pass replaced by a reissue is not mistaken for the new one
       const customerPass = await db.query.customerPasses.findFirst({
         where: and(
+          eq(customerPasses.serialNumber, serial),
           eq(customerPasses.customerId, customerId),
           eq(customerPasses.cardId, cardId)
         ),
@@ -714,6 +1128,15 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Customer pass not found" });
       }
 
+      // Voided, replaced and expired passes can't collect stamps or points
+      const statusMessage = getPassStatusMessage(customerPass);
+      if (statusMessage) {
+        return res.status(403).json({
+          message: statusMessage,
+          status: getPassStatus(customerPass),
+        });
+      }
+
       // Get card to determine loyalty type
       const card = await db.query.loyaltyCards.findFirst({
         where: eq(loyaltyCards.id, cardId),
@@ -723,6 +1146,16 @@ export function registerRoutes(app: Express): Server {
         return res.status(404).json({ message: "Card not found" });
       }
 
+      // Cards with rotating codes only accept the code currently on the member's pass
+      try {
+        verifyRotatingCode(await getRotatingCode(card, serial), scanData);
+      } catch (error) {
+        if (error instanceof BarcodeError) {
+          return res.status(400).json({ message: error.message, code: error.code });
+        }
+        throw error;
+      }
+
       const customer = await db.query.customers.findFirst({
         where: eq(customers.id, customerId),
       });
@@ -767,7 +1200,9 @@ export function registerRoutes(app: Express): Server {
         .set({ 
           currentBalance: newBalance,
           lifetimeBalance: (customerPass.lifetimeBalance || 0) + (loyaltyType === 'membership' ? 1 : amount),
-          lastUpdated: new Date()
+          // The pass shows this date, so the update push turns into a "Reward unlocked" notification
+          lastRewardAt: rewardEarned ? new Date() : customerPass.lastRewardAt,
+          ...passVersionBump()
         })
         .where(eq(customerPasses.id, customerPass.id));
 
@@ -796,13 +1231,19 @@ export function registerRoutes(app: Express): Server {
         description: transactionDesc,
       });
 
-      // Send push notification to update pass automatically in Apple Wallet
+      // Queue a push so Apple Wallet updates the pass - the worker sends it, the scan doesn't wait on APNs
       try {
-        await apnsService.sendPassUpdateNotification(customerPass.serialNumber);
-        console.log(`✅ Push notification sent for pass: ${customerPass.serialNumber}`);
+        await pushQueueService.enqueue(customerPass.serialNumber);
       } catch (pushError: any) {
-        // Don't fail the scan if push notification fails - graceful degradation
-        console.error('⚠️ Failed to send push notification:', pushError.message);
+        // Don't fail the scan if the push can't be queued - graceful degradation
+        console.error('⚠️ Failed to queue push notification:', pushError.message);
+      }
+
+      // Update the Google Wallet object the same way
+      try {
+        await googleWalletService.updatePassBalance(card, customerPass.serialNumber, newBalance);
+      } catch (googleError: any) {
+        console.error('⚠️ Failed to update Google Wallet object:', googleError.message);
       }
 
       // Generate pass update URL for customer (fallback for manual update)
@@ -835,11 +1276,22 @@ export function registerRoutes(app: Express): Server {
     try {
       const { qrData } = req.body;
 
+      // Member numbers are guessable, so only signed-in staff can look members up by number
+      const memberNumber = parseMemberNumber(qrData);
+      if (memberNumber && !req.isAuthenticated()) {
+        return res.status(401).json({ message: "Sign in to look up members by number" });
+      }
+
       let scanData;
       try {
-        scanData = JSON.parse(qrData);
-      } catch {
-        return res.status(400).json({ message: "Invalid QR code format" });
+        scanData = memberNumber
+          ? await resolveMemberNumber(getBusinessId(req), memberNumber)
+          : parseBarcodeMessage(qrData);
+      } catch (error) {
+        if (!(error instanceof BarcodeError)) {
+          throw error;
+        }
+        return res.status(400).json({ message: error.message });
       }
 
       const { cardId, customerId, serial } = scanData;
@@ -848,8 +1300,10 @@ export function registerRoutes(app: Express): Server {
         return res.status(400).json({ message: "No customer associated with this pass" });
       }
 
+      // The serial pins the exact pass, so a pass replaced by a reissue is not mistaken for the new one
       const customerPass = await db.query.customerPasses.findFirst({
         where: and(
+          eq(customerPasses.serialNumber, serial),
           eq(customerPasses.customerId, customerId),
           eq(customerPasses.cardId, cardId)
         ),
@@ -889,6 +1343,9 @@ export function registerRoutes(app: Express): Server {
           currentBalance: customerPass.currentBalance,
           lifetimeBalance: customerPass.lifetimeBalance,
           lastUpdated: customerPass.lastUpdated,
+          status: getPassStatus(customerPass),
+          statusMessage: getPassStatusMessage(customerPass),
+          expiresAt: customerPass.expiresAt,
         },
         card: card ? {
           id: card.id,
@@ -913,12 +1370,7 @@ export function registerRoutes(app: Express): Server {
       const { customerId, cardId } = req.params;
       
       // Find customer pass
-      const customerPass = await db.query.customerPasses.findFirst({
-        where: and(
-          eq(customerPasses.customerId, parseInt(customerId)),
-          eq(customerPasses.cardId, parseInt(cardId))
-        ),
-      });
+      const customerPass = await passLifecycleService.getCurrentPass(parseInt(customerId), parseInt(cardId));
 
       if (!customerPass) {
         return res.status(404).json({ message: "Customer pass not found" });
@@ -953,6 +1405,10 @@ export function registerRoutes(app: Express): Server {
         customer: customer || undefined,
         currentBalance: customerPass.currentBalance || 0,
         serialNumber: customerPass.serialNumber,
+        voided: customerPass.isActive === false,
+        expiresAt: customerPass.expiresAt,
+        lastRewardAt: customerPass.lastRewardAt,
+        passTypeIdentifier: customerPass.passTypeIdentifier,
       });
 
       res.setHeader('Content-Type', 'application/vnd.apple.pkpass');
@@ -961,10 +1417,267 @@ export function registerRoutes(app: Express): Server {
 
     } catch (error: any) {
       console.error("Error regenerating pass:", error);
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ message: "Failed to regenerate pass", error: error.message });
     }
   });
 
+  // Inspect an uploaded .pkpass, or a freshly built copy of one of the business's passes,
+  // and report everything Wallet would reject
+  app.post("/api/passes/inspect", requireAuth, async (req, res) => {
+    try {
+      const { pkpass, serialNumber } = req.body;
+      let passBuffer: Buffer;
+
+      if (typeof pkpass === 'string' && pkpass) {
+        // Accept a bare base64 string or a data URL from a file input
+        passBuffer = Buffer.from(pkpass.replace(/^data:[^,]*,/, ''), 'base64');
+      } else if (typeof serialNumber === 'string' && serialNumber) {
+        const pass = await findBusinessPass(req, serialNumber);
+        if (!pass) {
+          return res.status(404).json({ message: "Pass not found" });
+        }
+        const [business, customer] = await Promise.all([
+          db.query.businesses.findFirst({ where: eq(businesses.id, pass.card!.businessId!) }),
+          db.query.customers.findFirst({ where: eq(customers.id, pass.customerId) }),
+        ]);
+        passBuffer = await generateEnhancedPass({
+          card: pass.card!,
+          business: business!,
+          customer: customer || undefined,
+          serialNumber: pass.serialNumber,
+          currentBalance: pass.currentBalance || 0,
+          voided: pass.isActive === false,
+          expiresAt: pass.expiresAt,
+          lastRewardAt: pass.lastRewardAt,
+          passTypeIdentifier: pass.passTypeIdentifier,
+        });
+      } else {
+        return res.status(400).json({ message: "Upload a .pkpass file or give a pass serial number" });
+      }
+
+      res.json(await inspectPass(passBuffer));
+    } catch (error: any) {
+      console.error("Error inspecting pass:", error);
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ message: "Failed to inspect pass", error: error.message });
+    }
+  });
+
+  // Errors members' iPhones reported to /v1/log for this business's passes, repeats grouped together
+  // With ?unattributed=true, lines matching no business instead (WALLET_LOG_ADMIN_EMAILS accounts only)
+  app.get("/api/device-logs", requireAuth, async (req, res) => {
+    try {
+      const unattributed = req.query.unattributed === 'true';
+      if (unattributed && !canViewUnattributedLogs(req.user?.email)) {
+        return res.status(403).json({ message: "Not allowed to view unattributed logs" });
+      }
+      const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+      res.json(await deviceLogService.getGroups(unattributed ? null : getBusinessId(req), search));
+    } catch (error: any) {
+      console.error("Error loading device logs:", error);
+      res.status(500).json({ message: "Failed to load device logs" });
+    }
+  });
+
+  app.get("/api/device-logs/entries", requireAuth, async (req, res) => {
+    try {
+      const { fingerprint, search } = req.query;
+      if (typeof fingerprint !== 'string') {
+        return res.status(400).json({ message: "fingerprint is required" });
+      }
+      const unattributed = req.query.unattributed === 'true';
+      if (unattributed && !canViewUnattributedLogs(req.user?.email)) {
+        return res.status(403).json({ message: "Not allowed to view unattributed logs" });
+      }
+      res.json(await deviceLogService.getGroupEntries(
+        unattributed ? null : getBusinessId(req),
+        fingerprint,
+        typeof search === 'string' ? search.trim() : undefined
+      ));
+    } catch (error: any) {
+      console.error("Error loading device log entries:", error);
+      res.status(500).json({ message: "Failed to load device logs" });
+    }
+  });
+
+  app.get("/api/device-logs/settings", requireAuth, (req, res) => {
+    res.json({
+      retentionDays: getDeviceLogRetentionDays(),
+      canViewUnattributed: canViewUnattributedLogs(req.user?.email),
+    });
+  });
+
+  // In-memory APNs fake (APNS_TRANSPORT=fake), so the scan -> push -> /v1/passes loop can be
+  // tested end to end without Apple (see scripts/test-push-loop.ts); not registered otherwise
+  const apnsTransport = apnsService.getTransport();
+  if (apnsTransport instanceof FakeAPNsTransport) {
+    const simulatedFailureSchema = z.object({
+      pushToken: z.string().min(1).optional(),
+      reason: z.string().min(1),
+      status: z.number().int(),
+      times: z.number().int().positive().optional(),
+    });
+
+    app.get("/api/dev/apns/pushes", requireAuth, (req, res) => {
+      res.json(apnsTransport.pushes);
+    });
+
+    app.delete("/api/dev/apns/pushes", requireAuth, (req, res) => {
+      apnsTransport.reset();
+      res.sendStatus(204);
+    });
+
+    // e.g. { "reason": "Unregistered", "status": 410 } or { "reason": "TooManyRequests", "status": 429, "times": 2 }
+    app.post("/api/dev/apns/failures", requireAuth, (req, res) => {
+      const failure = simulatedFailureSchema.safeParse(req.body);
+      if (!failure.success) {
+        return res.status(400).json({ message: "Invalid simulated failure" });
+      }
+      apnsTransport.simulateFailure(failure.data);
+      res.sendStatus(204);
+    });
+  }
+
+  // In-memory Google Wallet fake (GOOGLE_WALLET_TRANSPORT=fake), so the enroll -> save -> scan flow
+  // can be tested without Google (see scripts/test-google-wallet.ts); not registered otherwise
+  const googleWalletClient = googleWalletService.getClient();
+  if (googleWalletClient instanceof FakeGoogleWalletClient) {
+    const saveSchema = z.object({
+      // The full "Save to Google Wallet" link, or just the JWT at its end
+      saveUrl: z.string().min(1),
+    });
+
+    app.get("/api/dev/google-wallet/objects", requireAuth, (req, res) => {
+      res.json(Array.from(googleWalletClient.objects.values()));
+    });
+
+    app.get("/api/dev/google-wallet/calls", requireAuth, (req, res) => {
+      res.json(googleWalletClient.calls);
+    });
+
+    // What Google does when the member taps the link
+    app.post("/api/dev/google-wallet/save", requireAuth, async (req, res) => {
+      const save = saveSchema.safeParse(req.body);
+      if (!save.success) {
+        return res.status(400).json({ message: "Invalid save link" });
+      }
+
+      try {
+        await googleWalletClient.save(save.data.saveUrl.split('/').pop()!);
+        res.sendStatus(204);
+      } catch (error: any) {
+        res.status(400).json({ message: error.message });
+      }
+    });
+  }
+
+  // Push delivery monitoring
+  app.get("/api/push-monitoring/status", requireAuth, async (req, res) => {
+    try {
+      res.json({
+        apns: apnsService.getStatus(),
+        // Passes under the business's own pass type push with its certificate, not the platform key
+        ownPassTypeIdentifier: await signingCredentialService.getBusinessPassTypeIdentifier(getBusinessId(req)),
+      });
+    } catch (error: any) {
+      console.error("Error loading push status:", error);
+      res.status(500).json({ message: "Failed to load push notification status" });
+    }
+  });
+
+  app.get("/api/push-monitoring/stats", requireAuth, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 14, 1), 90);
+      res.json(await pushMonitorService.getStats(getBusinessId(req), days));
+    } catch (error: any) {
+      console.error("Error loading push stats:", error);
+      res.status(500).json({ message: "Failed to load push delivery stats" });
+    }
+  });
+
+  app.get("/api/push-monitoring/failing-passes", requireAuth, async (req, res) => {
+    try {
+      const days = Math.min(Math.max(parseInt(req.query.days as string) || 14, 1), 90);
+      res.json(await pushMonitorService.getFailingPasses(getBusinessId(req), days));
+    } catch (error: any) {
+      console.error("Error loading failing passes:", error);
+      res.status(500).json({ message: "Failed to load failing passes" });
+    }
+  });
+
+  app.post("/api/passes/:serialNumber/resend-push", requireAuth, async (req, res) => {
+    try {
+      const pass = await findBusinessPass(req, req.params.serialNumber);
+      if (!pass) {
+        return res.status(404).json({ message: "Pass not found" });
+      }
+      // Null is the platform's pass type
+      const passType = pass.passTypeIdentifier ?? process.env.APPLE_PASS_TYPE_ID;
+      if (!passType || !(await apnsService.canSendTo(passType))) {
+        return res.status(503).json({ message: "Push notifications are not configured for this pass" });
+      }
+      const devices = await pushQueueService.resend(pass.serialNumber);
+      res.json({ devices });
+    } catch (error: any) {
+      console.error("Error resending push:", error);
+      res.status(500).json({ message: "Failed to resend push" });
+    }
+  });
+
+  // The business's own Apple signing credentials (white-label passes)
+  app.get("/api/signing-credentials", requireAuth, async (req, res) => {
+    try {
+      res.json({
+        credential: await signingCredentialService.getSummary(getBusinessId(req)),
+        platformPassTypeIdentifier: process.env.APPLE_PASS_TYPE_ID || null,
+      });
+    } catch (error: any) {
+      console.error("Error loading signing credentials:", error);
+      res.status(500).json({ message: "Failed to load signing credentials" });
+    }
+  });
+
+  // Upload a Pass Type ID certificate exported from Keychain Access as .p12
+  app.post("/api/signing-credentials", requireAuth, async (req, res) => {
+    try {
+      const { p12, password = '' } = req.body;
+      if (typeof p12 !== 'string' || !p12 || typeof password !== 'string') {
+        return res.status(400).json({ message: "Upload a .p12 file" });
+      }
+
+      const { summary, errors } = await signingCredentialService.saveP12(
+        getBusinessId(req),
+        Buffer.from(p12.replace(/^data:[^,]*,/, ''), 'base64'),
+        password
+      );
+      if (!summary) {
+        return res.status(400).json({ message: errors[0].message, errors });
+      }
+      res.json(summary);
+    } catch (error: any) {
+      console.error("Error saving signing credentials:", error);
+      res.status(500).json({ message: "Failed to save signing credentials" });
+    }
+  });
+
+  app.delete("/api/signing-credentials", requireAuth, async (req, res) => {
+    try {
+      const removed = await signingCredentialService.remove(getBusinessId(req));
+      if (!removed) {
+        return res.status(404).json({ message: "No signing credentials uploaded" });
+      }
+      res.json({ message: "Signing credentials removed" });
+    } catch (error: any) {
+      console.error("Error removing signing credentials:", error);
+      res.status(500).json({ message: "Failed to remove signing credentials" });
+    }
+  });
+
   // Add a new endpoint for certificate validation
   app.post("/api/certificates/validate", async (req, res) => {
     try {
@@ -993,7 +1706,7 @@ export function registerRoutes(app: Express): Server {
       }
 
       // Validate the formatted certificates
-      const { isValid, diagnostics } = diagnosePassCertificates(
+      const { isValid, diagnostics, errors } = diagnosePassCertificates(
         signingCert,
         signingKey,
         wwdrCert
@@ -1003,6 +1716,7 @@ export function registerRoutes(app: Express): Server {
       return res.json({
         isValid,
         diagnostics,
+        errors,
         certificates: {
           signingCert: signingCert.substring(0, 100) + '...',
           signingKey: signingKey.substring(0, 100) + '...',
@@ -1230,6 +1944,45 @@ export function registerRoutes(app: Express): Server {
     }
   });
 
+  // Card logo as PNG (Google Wallet fetches the program logo from a public URL)
+  app.get("/api/public/cards/:cardId/logo.png", async (req, res) => {
+    try {
+      const cardId = parseInt(req.params.cardId);
+      if (isNaN(cardId)) {
+        return res.status(400).json({ error: "Invalid card ID" });
+      }
+
+      const card = await db.query.loyaltyCards.findFirst({
+        where: eq(loyaltyCards.id, cardId),
+        with: {
+          business: true
+        }
+      });
+
+      if (!card) {
+        return res.status(404).json({ error: "Card not found" });
+      }
+
+      const design = card.design as any;
+      const image = await generateIconPng(
+        design.backgroundColor || design.primaryColor || '#4F46E5',
+        660,
+        getMonogram(card.business?.name || card.name),
+        card.business ? resolveLogo(card, card.business) : decodeImageDataUrl(design.logo),
+        design.textColor || '#ffffff'
+      );
+
+      res.set({
+        'Content-Type': 'image/png',
+        'Cache-Control': 'public, max-age=3600',
+      });
+      res.send(image);
+    } catch (error: any) {
+      console.error('Card logo error:', error);
+      res.status(500).json({ error: "Failed to load logo" });
+    }
+  });
+
   // Customer enrollment endpoint
   app.post("/api/public/enroll", async (req, res) => {
     try {
@@ -1291,12 +2044,12 @@ export function registerRoutes(app: Express): Server {
       }
 
       // Check if customer already has a pass for this card
-      let pass = await db.query.customerPasses.findFirst({
-        where: and(
-          eq(customerPasses.customerId, customer.id),
-          eq(customerPasses.cardId, parsedCardId)
-        )
-      });
+      let pass = await passLifecycleService.getCurrentPass(customer.id, parsedCardId);
+
+      // Re-enrolling must not get around a voided pass (e.g. a banned member)
+      if (pass && pass.isActive === false) {
+        return res.status(403).json({ error: "This membership is no longer active. Please contact the business." });
+      }
 
       if (!pass) {
         // Create new pass
@@ -1308,6 +2061,7 @@ export function registerRoutes(app: Express): Server {
           currentBalance: 0,
           lifetimeBalance: 0,
           isActive: true,
+          passTypeIdentifier: await signingCredentialService.getBusinessPassTypeIdentifier(card.businessId),
         }).returning();
         pass = newPass;
       }
@@ -1317,11 +2071,39 @@ export function registerRoutes(app: Express): Server {
       const protocol = req.protocol || 'https';
       const passUrl = `${protocol}://${host}/api/passes/${pass.serialNumber}/download`;
 
+      // Both links below are private to the member, so they carry the pass's auth token
+      const passToken = await AuthTokenService.getOrCreateToken(pass.serialNumber);
+
+      // Members joining a second program can add all their cards to Wallet in one go
+      const passCount = (await passLifecycleService.getActivePasses(customer.id)).length;
+      const bundleUrl = passCount > 1 ? `${protocol}://${host}/api/passes/${pass.serialNumber}/bundle?token=${passToken}` : null;
+
+      // Browser version of the pass for members without a Wallet app
+      const webPassUrl = `${protocol}://${host}/p/${pass.serialNumber}?token=${passToken}`;
+
+      // Signed "Save to Google Wallet" link for Android members
+      let googleWalletUrl: string | null = null;
+      try {
+        googleWalletUrl = await googleWalletService.createSaveUrl(
+          card,
+          card.business!,
+          customer,
+          pass,
+          `${protocol}://${host}`
+        );
+      } catch (googleError: any) {
+        console.error('⚠️ Failed to create Google Wallet link:', googleError.message);
+      }
+
       res.json({ 
         success: true, 
         customerId: customer.id,
         passId: pass.id,
         passUrl: passUrl,
+        bundleUrl,
+        passCount,
+        webPassUrl,
+        googleWalletUrl,
       });
     } catch (error: any) {
       console.error('Enrollment error:', error);
@@ -1331,6 +2113,7 @@ export function registerRoutes(app: Express): Server {
 
   // Download pass by serial number (public)
   app.get("/api/passes/:serialNumber/download", async (req, res) => {
+    const started = Date.now();
     try {
       const { serialNumber } = req.params;
 
@@ -1357,19 +2140,161 @@ export function registerRoutes(app: Express): Server {
         customer: pass.customer,
         serialNumber: pass.serialNumber,
         currentBalance: pass.currentBalance || 0,
+        voided: pass.isActive === false,
+        expiresAt: pass.expiresAt,
+        lastRewardAt: pass.lastRewardAt,
+        passTypeIdentifier: pass.passTypeIdentifier,
       });
+      await walletInstallService.recordDownload([pass.serialNumber]);
 
       res.set({
         'Content-Type': 'application/vnd.apple.pkpass',
         'Content-Disposition': `attachment; filename="${pass.card.name.replace(/\s+/g, '_')}.pkpass"`,
+        'Server-Timing': `pass;dur=${Date.now() - started}`,
       });
 
       res.send(passData);
     } catch (error: any) {
       console.error('Pass download error:', error);
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
       res.status(500).json({ error: "Failed to generate pass" });
     }
   });
 
+  // Every active pass of the customer holding this pass, as one .pkpasses bundle
+  // The bundle holds the member's other passes and their auth tokens, so it needs this pass's token (?token=)
+  app.get("/api/passes/:serialNumber/bundle", async (req, res) => {
+    const started = Date.now();
+    try {
+      if (!(await hasPassToken(req, req.params.serialNumber))) {
+        return res.status(401).json({ error: "Invalid pass link" });
+      }
+
+      const pass = await db.query.customerPasses.findFirst({
+        where: eq(customerPasses.serialNumber, req.params.serialNumber),
+        with: {
+          customer: true
+        }
+      });
+
+      if (!pass || !pass.customer) {
+        return res.status(404).json({ error: "Pass not found" });
+      }
+
+      const activePasses = await passLifecycleService.getActivePasses(pass.customerId);
+      if (activePasses.length === 0) {
+        return res.status(404).json({ error: "No active passes" });
+      }
+
+      const bundle = await generatePassBundle(activePasses.map(activePass => ({
+        card: activePass.card,
+        business: activePass.card.business!,
+        customer: pass.customer,
+        serialNumber: activePass.serialNumber,
+        currentBalance: activePass.currentBalance || 0,
+        expiresAt: activePass.expiresAt,
+        lastRewardAt: activePass.lastRewardAt,
+        passTypeIdentifier: activePass.passTypeIdentifier,
+      })));
+      await walletInstallService.recordDownload(activePasses.map(activePass => activePass.serialNumber));
+
+      res.set({
+        'Content-Type': 'application/vnd.apple.pkpasses',
+        'Content-Disposition': `attachment; filename="${activePasses[0].card.business!.name.replace(/\s+/g, '_')}.pkpasses"`,
+        'Server-Timing': `pass;dur=${Date.now() - started}`,
+      });
+
+      res.send(bundle);
+    } catch (error: any) {
+      console.error('Pass bundle download error:', error);
+      if (error instanceof PassSigningError) {
+        return res.status(503).json({ message: error.message, code: error.code });
+      }
+      res.status(500).json({ error: "Failed to generate passes" });
+    }
+  });
+
+  // Web version of a pass for members without Wallet (public with the pass's auth token)
+  app.get("/api/web-pass/:serialNumber", async (req, res) => {
+    try {
+      const pass = await findWebPass(req);
+      if (!pass) {
+        return res.status(401).json({ error: "Invalid pass link" });
+      }
+
+      const recentTransactions = await db.query.transactions.findMany({
+        where: eq(transactions.customerPassId, pass.id),
+        orderBy: [desc(transactions.createdAt)],
+        limit: WEB_PASS_TRANSACTION_LIMIT,
+      });
+
+      // The barcode can rotate and the balance changes with every scan
+      res.set('Cache-Control', 'no-store');
+      const rotating = await getRotatingCode(pass.card, pass.serialNumber);
+      res.json(buildWebPass(pass, pass.card, pass.card.business!, pass.customer, recentTransactions, rotating));
+    } catch (error: any) {
+      console.error('Web pass error:', error);
+      res.status(500).json({ error: "Failed to load pass" });
+    }
+  });
+
+  // Manifest that lets members add the web pass to their home screen
+  app.get("/api/web-pass/:serialNumber/manifest.webmanifest", async (req, res) => {
+    try {
+      const pass = await findWebPass(req);
+      if (!pass) {
+        return res.status(401).json({ error: "Invalid pass link" });
+      }
+
+      const startUrl = `/p/${encodeURIComponent(pass.serialNumber)}?token=${encodeURIComponent(String(req.query.token))}`;
+      res.set('Content-Type', 'application/manifest+json');
+      res.send(JSON.stringify(buildWebPassManifest(pass.card, pass.card.business!, startUrl)));
+    } catch (error: any) {
+      console.error('Web pass manifest error:', error);
+      res.status(500).json({ error: "Failed to load manifest" });
+    }
+  });
+
+  // PNG of a customer's pass front with their balance
+  // It shows the member's name and barcode, so only the pass's business or a link with the
+  // pass's auth token (?token=, e.g. in emails) can load it
+  app.get("/api/passes/:serialNumber/preview.png", async (req, res) => {
+    try {
+      const { serialNumber } = req.params;
+      const isOwner = req.isAuthenticated() && !!(await findBusinessPass(req, serialNumber));
+      if (!isOwner && !(await hasPassToken(req, serialNumber))) {
+        return res.status(401).json({ error: "Invalid pass link" });
+      }
+
+      const pass = await loadFullPass(serialNumber);
+      if (!pass) {
+        return res.status(404).json({ error: "Pass not found" });
+      }
+
+      const image = await renderPassPreview({
+        card: pass.card,
+        business: pass.card.business!,
+        customer: pass.customer,
+        serialNumber: pass.serialNumber,
+        currentBalance: pass.currentBalance || 0,
+        voided: pass.isActive === false,
+        expiresAt: pass.expiresAt,
+        lastRewardAt: pass.lastRewardAt,
+      }, parsePreviewOptions(req.query));
+
+      // The balance changes with every scan, so always revalidate (Express adds the ETag)
+      res.set({
+        'Content-Type': 'image/png',
+        'Cache-Control': 'no-cache',
+      });
+      res.send(image);
+    } catch (error: any) {
+      console.error('Pass preview error:', error);
+      res.status(500).json({ error: "Failed to render pass preview" });
+    }
+  });
+
   return httpServer;
 }
\ No newline at end of file
@@ -1,19 +1,235 @@
 import apn from '@parse/node-apn';
-import { db } from '@db';
-import { deviceRegistrations, pushNotificationLog } from '@db/schema';
-import { eq } from 'drizzle-orm';
 import fs from 'fs';
 import path from 'path';
+import { signingCredentialService } from './signingCredentialService';
+
+/**
+ * How a push failure should be handled:
+ * - transient: rate limited (429), APNs errors (5xx) or no connection - retry later
+ * - invalidToken: the device no longer has the pass - drop its registration
+ * - permanent: anything else (bad topic, credentials) - retrying won't help
+ */
+export type PushFailureKind = 'transient' | 'invalidToken' | 'permanent';
+
+export type PushResult =
+  | { sent: true }
+  | { sent: false; kind: PushFailureKind; reason: string; status?: number };
+
+// DeviceTokenNotForTopic is left out: it means the push went out under the wrong certificate or
+// topic, so the registration is still good and the push alone fails as permanent
+const INVALID_TOKEN_REASONS = ['BadDeviceToken', 'Unregistered'];
+
+export function classifyPushFailure(failure: apn.ResponseFailure): PushResult {
+  const reason = failure.response?.reason || failure.error?.message || 'Unknown error';
+  const status = failure.status;
+  if (failure.error || !status || status === 429 || status >= 500) {
+    return { sent: false, kind: 'transient', reason, status };
+  }
+  if (status === 410 || INVALID_TOKEN_REASONS.includes(reason)) {
+    return { sent: false, kind: 'invalidToken', reason, status };
+  }
+  return { sent: false, kind: 'permanent', reason, status };
+}
+
+/**
+ * Whether the platform's token-based provider is usable, and why not
+ * Businesses signing with their own certificate push with that instead
+ */
+export interface APNsStatus {
+  ready: boolean;
+  problem: 'missing_credentials' | 'missing_key' | 'init_failed' | null;
+  message: string | null;
+  environment: 'production' | 'sandbox';
+  transport: 'http2' | 'fake';
+}
+
+/**
+ * Transport used to deliver pushes to APNs
+ * The HTTP/2 transport talks to Apple; the fake records pushes in memory for local development
+ */
+export interface APNsTransport {
+  /**
+   * Send a pass update push to one device
+   * Never throws: connection errors are reported as transient failures
+   */
+  send(passTypeIdentifier: string, pushToken: string): Promise<PushResult>;
+  /**
+   * Whether there are credentials to push for the pass type at all
+   */
+  canSend(passTypeIdentifier: string): Promise<boolean>;
+  shutdown(): Promise<void>;
+}
+
+/**
+ * APNs over HTTP/2 via @parse/node-apn
+ * Uses the platform's token-based provider for APPLE_PASS_TYPE_ID, and a certificate-based
+ * provider for each business pass type
+ */
+export class Http2APNsTransport implements APNsTransport {
+  // Certificate-based providers for businesses' own pass types, rebuilt when their credentials change
+  private businessProviders = new Map<string, { provider: apn.Provider; version: number }>();
+
+  constructor(private provider: apn.Provider | null) {}
+
+  /**
+   * Provider for a pass type: the platform's token-based provider, or one authenticated with
+   * the business's own Pass Type ID certificate
+   * Returns null when there are no credentials for the pass type
+   */
+  private async getProvider(passTypeIdentifier: string): Promise<apn.Provider | null> {
+    if (passTypeIdentifier === process.env.APPLE_PASS_TYPE_ID) {
+      return this.provider;
+    }
+
+    const credentials = await signingCredentialService.getApnsCredentials(passTypeIdentifier);
+    if (!credentials) {
+      return null;
+    }
+
+    const existing = this.businessProviders.get(passTypeIdentifier);
+    if (existing?.version === credentials.version) {
+      return existing.provider;
+    }
+    existing?.provider.shutdown();
+
+    const provider = new apn.Provider({
+      cert: credentials.cert,
+      key: credentials.key,
+      production: process.env.APPLE_APNS_ENVIRONMENT === 'production',
+    });
+    this.businessProviders.set(passTypeIdentifier, { provider, version: credentials.version });
+    console.log(`✅ APNs provider initialized for ${passTypeIdentifier}`);
+    return provider;
+  }
+
+  async canSend(passTypeIdentifier: string): Promise<boolean> {
+    if (passTypeIdentifier === process.env.APPLE_PASS_TYPE_ID) {
+      return this.provider !== null;
+    }
+    return (await signingCredentialService.getApnsCredentials(passTypeIdentifier)) !== null;
+  }
+
+  async send(passTypeIdentifier: string, pushToken: string): Promise<PushResult> {
+    try {
+      const provider = await this.getProvider(passTypeIdentifier);
+      if (!provider) {
+        return { sent: false, kind: 'permanent', reason: `No APNs credentials for ${passTypeIdentifier}` };
+      }
+
+      const notification = new apn.Notification();
+
+      // Empty payload - Apple Wallet doesn't need content
+      // The push is just a signal to check for updates
+      notification.payload = {};
+
+      // Topic must be the pass type identifier the device registered under
+      notification.topic = passTypeIdentifier;
+
+      const result = await provider.send(notification, pushToken);
+      if (result.failed.length > 0) {
+        return classifyPushFailure(result.failed[0]);
+      }
+      return { sent: true };
+    } catch (error: any) {
+      return { sent: false, kind: 'transient', reason: error.message };
+    }
+  }
+
+  async shutdown(): Promise<void> {
+    if (this.provider) {
+      await this.provider.shutdown();
+      console.log('APNs provider shut down');
+    }
+    await Promise.all(Array.from(this.businessProviders.values(), ({ provider }) => provider.shutdown()));
+    this.businessProviders.clear();
+  }
+}
+
+export interface FakePush {
+  passTypeIdentifier: string;
+  pushToken: string;
+  sentAt: Date;
+  result: PushResult;
+}
+
+/**
+ * A failure the fake answers with instead of delivering
+ * Without a push token it applies to every device; without `times` it never runs out
+ */
+export interface SimulatedPushFailure {
+  pushToken?: string;
+  reason: string;
+  status: number;
+  times?: number;
+}
+
+/**
+ * In-memory stand-in for APNs
+ * Records every push, so the scan -> push -> /v1/passes refresh flow can be exercised without Apple
+ * credentials, and answers with simulated failures (e.g. 410 Unregistered, 429 TooManyRequests)
+ */
+export class FakeAPNsTransport implements APNsTransport {
+  readonly pushes: FakePush[] = [];
+  private failures: SimulatedPushFailure[] = [];
+
+  simulateFailure(failure: SimulatedPushFailure): void {
+    this.failures.push({ ...failure });
+  }
+
+  reset(): void {
+    this.pushes.length = 0;
+    this.failures = [];
+  }
+
+  async send(passTypeIdentifier: string, pushToken: string): Promise<PushResult> {
+    const failure = this.failures.find(f => !f.pushToken || f.pushToken === pushToken);
+    let result: PushResult = { sent: true };
+    if (failure) {
+      result = classifyPushFailure({ device: pushToken, status: failure.status, response: { reason: failure.reason } });
+      if (failure.times !== undefined && --failure.times <= 0) {
+        this.failures.splice(this.failures.indexOf(failure), 1);
+      }
+    }
+    this.pushes.push({ passTypeIdentifier, pushToken, sentAt: new Date(), result });
+    console.log(`📤 Fake APNs push to ${pushToken.slice(0, 8)}… (${passTypeIdentifier}): ${result.sent ? 'delivered' : result.reason}`);
+    return result;
+  }
+
+  async canSend(): Promise<boolean> {
+    return true;
+  }
+
+  async shutdown(): Promise<void> {}
+}
 
 /**
  * Apple Push Notification Service (APNs) integration
- * Sends push notifications to Apple Wallet to trigger pass updates
+ * Sends push notifications to Apple Wallet to trigger pass updates; pushQueueService decides
+ * which devices to send to and when
+ *
+ * Configuration:
+ * - APPLE_APNS_KEY_ID, APPLE_TEAM_ID and an AuthKey_<key id>.p8 file or APPLE_APNS_KEY
+ * - APPLE_APNS_ENVIRONMENT: "production" for App Store builds of Wallet, sandbox otherwise
+ * - APNS_TRANSPORT: set to "fake" to use the in-memory transport (no credentials needed)
  */
 class APNsService {
-  private provider: apn.Provider | null = null;
+  private transport: APNsTransport;
+  private status: APNsStatus = {
+    ready: false,
+    problem: null,
+    message: null,
+    environment: process.env.APPLE_APNS_ENVIRONMENT === 'production' ? 'production' : 'sandbox',
+    transport: process.env.APNS_TRANSPORT === 'fake' ? 'fake' : 'http2',
+  };
 
   constructor() {
-    this.initializeProvider();
+    if (process.env.APNS_TRANSPORT === 'fake') {
+      this.transport = new FakeAPNsTransport();
+      this.status = { ...this.status, ready: true };
+      console.log('✅ APNs initialized with in-memory fake transport');
+    } else {
+      this.transport = new Http2APNsTransport(this.initializeProvider());
+    }
   }
 
   /**
@@ -21,11 +237,12 @@ class APNsService {
    * Tries to read from .p8 file first, then falls back to environment variable
    * Requires environment variables: APPLE_APNS_KEY_ID, APPLE_TEAM_ID
    */
-  private initializeProvider() {
+  private initializeProvider(): apn.Provider | null {
     if (!process.env.APPLE_APNS_KEY_ID || !process.env.APPLE_TEAM_ID) {
       console.warn('⚠️ APNs credentials not configured. Push notifications will be disabled.');
       console.warn('Set APPLE_APNS_KEY_ID and APPLE_TEAM_ID to enable push notifications.');
-      return;
+      this.setProblem('missing_credentials', 'Set APPLE_APNS_KEY_ID and APPLE_TEAM_ID to enable push notifications');
+      return null;
     }
 
     try {
@@ -41,7 +258,8 @@ class APNsService {
         apnsKey = process.env.APPLE_APNS_KEY;
       } else {
         console.warn('⚠️ APNs key not found. Upload AuthKey_XXXXX.p8 file or set APPLE_APNS_KEY.');
-        return;
+        this.setProblem('missing_key', `APNs key not found. Upload AuthKey_${process.env.APPLE_APNS_KEY_ID}.p8 or set APPLE_APNS_KEY`);
+        return null;
       }
 
       const options: apn.ProviderOptions = {
@@ -53,111 +271,56 @@ class APNsService {
         production: process.env.APPLE_APNS_ENVIRONMENT === 'production',
       };
 
-      this.provider = new apn.Provider(options);
+      const provider = new apn.Provider(options);
+      this.status = { ...this.status, ready: true, problem: null, message: null };
       console.log(`✅ APNs provider initialized successfully (${process.env.APPLE_APNS_ENVIRONMENT || 'sandbox'} mode)`);
+      return provider;
     } catch (error: any) {
       console.error('❌ Failed to initialize APNs provider:', error.message);
-      this.provider = null;
+      this.setProblem('init_failed', error.message);
+      return null;
     }
   }
 
+  private setProblem(problem: NonNullable<APNsStatus['problem']>, message: string) {
+    this.status = { ...this.status, ready: false, problem, message };
+  }
+
+  getStatus(): APNsStatus {
+    return this.status;
+  }
+
   /**
-   * Send push notification to all devices that have the pass installed
+   * Expose the underlying transport (used to inspect the fake in development)
+   */
+  getTransport(): APNsTransport {
+    return this.transport;
+  }
+
+  /**
+   * Send a pass update push to one device
    * Apple Wallet will then fetch the updated pass from our web service
    *
-   * @param serialNumber - The serial number of the pass that was updated
+   * @param passTypeIdentifier - The pass type the device registered under, used as the push topic
    */
-  async sendPassUpdateNotification(serialNumber: string): Promise<void> {
-    if (!this.provider) {
-      console.warn('⚠️ APNs provider not initialized. Skipping push notification for pass:', serialNumber);
-      return;
-    }
-
-    try {
-      // Find all devices registered for this pass
-      const devices = await db.query.deviceRegistrations.findMany({
-        where: eq(deviceRegistrations.serialNumber, serialNumber),
-      });
-
-      if (devices.length === 0) {
-        console.log(`ℹ️ No devices registered for serial number: ${serialNumber}`);
-        return;
-      }
+  async sendToDevice(passTypeIdentifier: string, pushToken: string): Promise<PushResult> {
+    return this.transport.send(passTypeIdentifier, pushToken);
+  }
 
-      console.log(`📤 Sending push notifications to ${devices.length} device(s) for pass: ${serialNumber}`);
-
-      // Send push notification to each device
-      for (const device of devices) {
-        try {
-          const notification = new apn.Notification();
-
-          // Empty payload - Apple Wallet doesn't need content
-          // The push is just a signal to check for updates
-          notification.payload = {};
-
-          // Topic must be the pass type identifier
-          notification.topic = process.env.APPLE_PASS_TYPE_ID!;
-
-          const result = await this.provider.send(notification, device.pushToken);
-
-          // Check for failures
-          if (result.failed.length > 0) {
-            const failure = result.failed[0];
-            const reason = failure.response?.reason || 'Unknown error';
-
-            console.error(`❌ Push failed for device ${device.deviceLibraryIdentifier}: ${reason}`);
-
-            // Log the failure
-            await db.insert(pushNotificationLog).values({
-              serialNumber,
-              pushToken: device.pushToken,
-              status: 'failed',
-              errorMessage: reason,
-            });
-
-            // If token is invalid, remove the device registration
-            if (reason === 'BadDeviceToken' || reason === 'Unregistered') {
-              console.log(`🧹 Removing invalid device registration: ${device.id}`);
-              await db.delete(deviceRegistrations)
-                .where(eq(deviceRegistrations.id, device.id));
-            }
-          } else {
-            // Log success
-            await db.insert(pushNotificationLog).values({
-              serialNumber,
-              pushToken: device.pushToken,
-              status: 'sent',
-            });
-
-            console.log(`✅ Push notification sent successfully to device: ${device.deviceLibraryIdentifier}`);
-          }
-        } catch (error: any) {
-          console.error(`❌ Failed to send push to device ${device.id}:`, error.message);
-
-          // Log the error
-          await db.insert(pushNotificationLog).values({
-            serialNumber,
-            pushToken: device.pushToken,
-            status: 'failed',
-            errorMessage: error.message,
-          });
-        }
-      }
-    } catch (error: any) {
-      console.error('❌ Error sending pass update notifications:', error.message);
-      throw error;
-    }
+  /**
+   * Whether pushes for the pass type can be sent; false when APNs or the business's
+   * certificate isn't configured, in which case queueing them would only fail
+   */
+  async canSendTo(passTypeIdentifier: string): Promise<boolean> {
+    return this.transport.canSend(passTypeIdentifier);
   }
 
   /**
-   * Gracefully shutdown the APNs provider
+   * Gracefully shutdown the APNs transport
    * Call this when shutting down the server
    */
   async shutdown(): Promise<void> {
-    if (this.provider) {
-      await this.provider.shutdown();
-      console.log('APNs provider shut down');
-    }
+    await this.transport.shutdown();
   }
 }
 
@@ -0,0 +1,372 @@
+import crypto from 'crypto';
+import { db } from '@db';
+import { appSettings, customerPasses, type LoyaltyCard, type BarcodeFormat } from '@db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+
+// Version prefix, so the format can change without breaking passes already in wallets
+const BARCODE_PREFIX = 'LP1';
+// Prefix of rotating codes, which end in a time-based code instead of a signature
+const ROTATING_PREFIX = 'LPR';
+export const DEFAULT_ROTATING_CODE_PERIOD = 60;
+// RFC 6238 codes, so Google Wallet can generate the same values on the device
+const TOTP_DIGITS = 8;
+// RFC 4226 recommends 160-bit secrets for HMAC-SHA1
+const ROTATING_SECRET_BYTES = 20;
+// 96 bits of HMAC-SHA256: far beyond guessing at a till, and keeps the code short for PDF417/Aztec
+const SIGNATURE_BYTES = 12;
+
+/**
+ * What a pass barcode identifies
+ */
+export interface BarcodeData {
+  cardId: number;
+  // null for preview passes not issued to a customer
+  customerId: number | null;
+  serial: string;
+  // Unsigned JSON from passes issued before barcodes were signed
+  legacy: boolean;
+  // Time-based code from a rotating barcode; checked against the card with verifyRotatingCode
+  rotatingCode?: string;
+}
+
+/**
+ * A pass's rotating code settings: the card's period and the pass's own secret
+ */
+export interface RotatingCode {
+  period: number;
+  secret: Buffer;
+}
+
+export type BarcodeErrorCode = 'EXPIRED_CODE' | 'STATIC_CODE';
+
+/**
+ * A barcode that can't be trusted; the message is safe to show to staff
+ */
+export class BarcodeError extends Error {
+  constructor(message: string, public readonly code?: BarcodeErrorCode) {
+    super(message);
+    this.name = 'BarcodeError';
+  }
+}
+
+let warnedAboutSecret = false;
+
+/**
+ * Key for signing barcodes
+ *
+ * @throws BarcodeError in production when no secret is set - the development fallback is in
+ * the source, so barcodes signed with it could be forged by anyone
+ */
+function getBarcodeSecret(): string {
+  const secret = process.env.BARCODE_SECRET || process.env.SESSION_SECRET;
+  if (!secret) {
+    if (process.env.NODE_ENV === 'production') {
+      throw new BarcodeError('Barcode signing is not configured. Set BARCODE_SECRET.');
+    }
+    if (!warnedAboutSecret) {
+      console.warn('⚠️ BARCODE_SECRET not set. Using a fixed secret for development; pass barcodes can be forged.');
+      warnedAboutSecret = true;
+    }
+    return 'dev-only-barcode-secret';
+  }
+  return secret;
+}
+
+function signBarcode(payload: string): string {
+  return crypto.createHmac('sha256', getBarcodeSecret())
+    .update(payload)
+    .digest()
+    .subarray(0, SIGNATURE_BYTES)
+    .toString('base64url');
+}
+
+export function getBarcodeFormat(card: LoyaltyCard): BarcodeFormat {
+  return (card.design as any).barcodeFormat || 'qr';
+}
+
+/**
+ * Human-readable member number printed under the barcode, or undefined if the card hides it
+ * Staff can type it in when a code won't scan
+ */
+export function getMemberNumberText(card: LoyaltyCard, customerId: number | null | undefined): string | undefined {
+  if (!customerId || (card.design as any).showMemberNumber === false) {
+    return undefined;
+  }
+  return `#${customerId}`;
+}
+
+/**
+ * Read a member number typed in by staff ("#123" or "123")
+ * Returns null for anything else, e.g. a full barcode payload
+ */
+export function parseMemberNumber(input: unknown): number | null {
+  if (typeof input !== 'string') {
+    return null;
+  }
+  const match = input.trim().match(/^#?(\d{1,9})$/);
+  return match ? parseInt(match[1]) : null;
+}
+
+/**
+ * Secret behind a pass's rotating code, created the first time the pass needs one
+ * Random per pass, so leaking one pass's secret (e.g. from a Google Wallet object) reveals nothing else
+ */
+async function getRotatingCodeSecret(serial: string): Promise<Buffer> {
+  const pass = await db.query.customerPasses.findFirst({
+    where: eq(customerPasses.serialNumber, serial),
+    columns: { id: true, rotatingSecret: true },
+  });
+  if (!pass) {
+    // Preview passes aren't issued, so their codes never scan and any secret will do
+    return crypto.randomBytes(ROTATING_SECRET_BYTES);
+  }
+  if (pass.rotatingSecret) {
+    return Buffer.from(pass.rotatingSecret, 'hex');
+  }
+
+  // Two builds racing here must end up with the same secret, so only the first write sticks
+  await db.update(customerPasses)
+    .set({ rotatingSecret: crypto.randomBytes(ROTATING_SECRET_BYTES).toString('hex') })
+    .where(and(eq(customerPasses.id, pass.id), isNull(customerPasses.rotatingSecret)));
+  const created = await db.query.customerPasses.findFirst({
+    where: eq(customerPasses.id, pass.id),
+    columns: { rotatingSecret: true },
+  });
+  return Buffer.from(created!.rotatingSecret!, 'hex');
+}
+
+/**
+ * RFC 4226 HOTP value for one time step
+ */
+function generateTotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return (binary % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * How often a card's barcode changes, in seconds, or null if the card uses a static code
+ */
+export function getRotatingCodePeriod(card: LoyaltyCard): number | null {
+  const rotatingCode = (card.design as any).rotatingCode;
+  return rotatingCode?.enabled ? rotatingCode.periodSeconds || DEFAULT_ROTATING_CODE_PERIOD : null;
+}
+
+/**
+ * The pass's rotating code settings, or null if the card uses a static code
+ */
+export async function getRotatingCode(card: LoyaltyCard, serial: string): Promise<RotatingCode | null> {
+  const period = getRotatingCodePeriod(card);
+  return period ? { period, secret: await getRotatingCodeSecret(serial) } : null;
+}
+
+function getRotatingPrefix(cardId: number, customerId: number | null, serial: string): string {
+  return `${ROTATING_PREFIX}.${cardId}.${customerId ?? 0}.${serial}.`;
+}
+
+/**
+ * What Google Wallet needs to generate a pass's rotating code on the device
+ * The barcode value is the prefix followed by the current code
+ */
+export function getRotatingBarcodeDetails(cardId: number, customerId: number | null, serial: string, rotating: RotatingCode) {
+  return {
+    prefix: getRotatingPrefix(cardId, customerId, serial),
+    secretHex: rotating.secret.toString('hex'),
+    digits: TOTP_DIGITS,
+  };
+}
+
+// Unsigned JSON barcodes keep scanning this long after the server first issued signed ones, unless
+// LEGACY_BARCODES_UNTIL sets a date. A scan of an old code pushes the pass, so active members
+// have their signed code well before then
+const LEGACY_BARCODE_GRACE_DAYS = 30;
+const SIGNED_BARCODES_SINCE_KEY = 'signed_barcodes_since';
+
+// Stands in for the recorded start until loadLegacyBarcodeWindow has run (or if it failed)
+const processStartedAt = new Date();
+let signedBarcodesSince: Date | null = null;
+
+let warnedAboutLegacyCutoff = false;
+
+/**
+ * Load when the server first issued signed barcodes, recording now if it never has
+ * Kept in the database so restarts and redeploys don't reopen the legacy window
+ */
+export async function loadLegacyBarcodeWindow(): Promise<void> {
+  try {
+    await db.insert(appSettings)
+      .values({ key: SIGNED_BARCODES_SINCE_KEY, value: new Date().toISOString() })
+      .onConflictDoNothing();
+    const setting = await db.query.appSettings.findFirst({
+      where: eq(appSettings.key, SIGNED_BARCODES_SINCE_KEY),
+    });
+    if (setting) {
+      signedBarcodesSince = new Date(setting.value);
+    }
+  } catch (error: any) {
+    console.error('❌ Failed to load the legacy barcode window:', error.message);
+  }
+}
+
+function getLegacyBarcodeCutoff(): Date {
+  if (process.env.LEGACY_BARCODES_UNTIL) {
+    return new Date(process.env.LEGACY_BARCODES_UNTIL);
+  }
+  const since = signedBarcodesSince && !isNaN(signedBarcodesSince.getTime()) ? signedBarcodesSince : processStartedAt;
+  return new Date(since.getTime() + LEGACY_BARCODE_GRACE_DAYS * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Whether unsigned JSON barcodes are still accepted
+ * Passes pick up the signed barcode the next time Wallet refreshes them. A LEGACY_BARCODES_UNTIL
+ * that isn't a date rejects them, so a typo can't reopen the unsigned format indefinitely.
+ */
+function acceptsLegacyBarcodes(now: Date = new Date()): boolean {
+  const cutoff = getLegacyBarcodeCutoff();
+  if (isNaN(cutoff.getTime())) {
+    if (!warnedAboutLegacyCutoff) {
+      console.error(`❌ LEGACY_BARCODES_UNTIL "${process.env.LEGACY_BARCODES_UNTIL}" is not a date. Unsigned barcodes are rejected.`);
+      warnedAboutLegacyCutoff = true;
+    }
+    return false;
+  }
+  return now < cutoff;
+}
+
+/**
+ * Build the barcode payload scanned by /api/staff/scan
+ * Shared by Apple and Google Wallet passes so both scan the same way.
+ * Format: LP1.<cardId>.<customerId, 0 for previews>.<serial>.<HMAC>
+ * Cards with rotating codes use LPR.<cardId>.<customerId>.<serial>.<current code> instead
+ *
+ * @param rotating - The pass's rotating code, for cards with rotating codes (see getRotatingCode)
+ */
+export function buildBarcodeMessage(
+  cardId: number,
+  customerId: number | null,
+  serial: string,
+  rotating: RotatingCode | null = null,
+  now: Date = new Date()
+): string {
+  if (rotating) {
+    const counter = Math.floor(now.getTime() / 1000 / rotating.period);
+    return `${getRotatingPrefix(cardId, customerId, serial)}${generateTotp(rotating.secret, counter)}`;
+  }
+
+  const payload = `${BARCODE_PREFIX}.${cardId}.${customerId ?? 0}.${serial}`;
+  return `${payload}.${signBarcode(payload)}`;
+}
+
+/**
+ * Read and verify a scanned barcode
+ *
+ * @throws BarcodeError if the code is malformed, forged, or in the retired legacy format
+ */
+export function parseBarcodeMessage(qrData: unknown): BarcodeData {
+  if (typeof qrData !== 'string' || !qrData) {
+    throw new BarcodeError('Invalid QR code format');
+  }
+
+  if (qrData.startsWith(`${ROTATING_PREFIX}.`)) {
+    const parts = qrData.split('.');
+    const cardId = parseInt(parts[1]);
+    if (parts.length < 5 || !cardId) {
+      throw new BarcodeError('Invalid QR code format');
+    }
+    return {
+      cardId,
+      customerId: parseInt(parts[2]) || null,
+      serial: parts.slice(3, -1).join('.'),
+      legacy: false,
+      rotatingCode: parts[parts.length - 1],
+    };
+  }
+
+  if (qrData.startsWith(`${BARCODE_PREFIX}.`)) {
+    const parts = qrData.split('.');
+    if (parts.length < 5) {
+      throw new BarcodeError('Invalid QR code format');
+    }
+
+    // Serials may contain dots, so the serial is everything between the IDs and the signature
+    const signature = parts[parts.length - 1];
+    const payload = parts.slice(0, -1).join('.');
+    const expected = signBarcode(payload);
+    if (signature.length !== expected.length ||
+        !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+      throw new BarcodeError('This QR code was not issued by LoyaltyPro or has been altered');
+    }
+
+    const cardId = parseInt(parts[1]);
+    const customerId = parseInt(parts[2]);
+    if (!cardId) {
+      throw new BarcodeError('Invalid QR code - missing card info');
+    }
+    return {
+      cardId,
+      customerId: customerId || null,
+      serial: parts.slice(3, -1).join('.'),
+      legacy: false,
+    };
+  }
+
+  let legacyData: any;
+  try {
+    legacyData = JSON.parse(qrData);
+  } catch {
+    throw new BarcodeError('Invalid QR code format');
+  }
+
+  if (!acceptsLegacyBarcodes()) {
+    throw new BarcodeError('This pass has an outdated QR code. Ask the customer to refresh or re-download their pass.');
+  }
+  if (!legacyData?.cardId) {
+    throw new BarcodeError('Invalid QR code - missing card info');
+  }
+  // Every legacy pass carried its serial; requiring it means a forged code must guess one
+  if (!legacyData.serial) {
+    throw new BarcodeError('Invalid QR code format');
+  }
+
+  console.log(`ℹ️ Accepted legacy unsigned barcode for pass ${legacyData.serial}`);
+  return {
+    cardId: Number(legacyData.cardId),
+    customerId: legacyData.customerId ? Number(legacyData.customerId) : null,
+    serial: String(legacyData.serial),
+    legacy: true,
+  };
+}
+
+/**
+ * Check a scanned code against the card's rotating code setting
+ * Cards with rotating codes only accept the current code (or the one before, for a code
+ * that changed while being scanned), so screenshots and printouts stop working.
+ *
+ * @param rotating - The scanned pass's rotating code (see getRotatingCode), null if the card uses a static code
+ * @throws BarcodeError with code STATIC_CODE or EXPIRED_CODE
+ */
+export function verifyRotatingCode(rotating: RotatingCode | null, data: BarcodeData, now: Date = new Date()): void {
+  if (data.rotatingCode === undefined) {
+    if (rotating) {
+      throw new BarcodeError('This card uses rotating codes. Ask the member to refresh their pass and show the current code.', 'STATIC_CODE');
+    }
+    return;
+  }
+
+  // A pass built before rotation was switched off; the card change pushed it, so a refresh shows the static code
+  if (!rotating) {
+    throw new BarcodeError('This card no longer uses rotating codes. Ask the member to refresh their pass and scan again.', 'EXPIRED_CODE');
+  }
+
+  const counter = Math.floor(now.getTime() / 1000 / rotating.period);
+  const code = Buffer.from(data.rotatingCode);
+  const isCurrent = [counter, counter - 1]
+    .map(step => Buffer.from(generateTotp(rotating.secret, step)))
+    .some(expected => expected.length === code.length && crypto.timingSafeEqual(expected, code));
+  if (!isCurrent) {
+    throw new BarcodeError('This code has expired. Ask the member to refresh their pass (pull down on the back of the pass in Wallet) and scan again.', 'EXPIRED_CODE');
+  }
+}
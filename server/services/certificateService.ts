@@ -1,5 +1,6 @@
 import { createHash } from 'crypto';
 import forge from 'node-forge';
+import { checkSigningCredentials, signManifest, PassSigningError } from './passSigner';
 
 interface CertificateValidationResult {
   isValid: boolean;
@@ -191,8 +192,9 @@ export function diagnosePassCertificates(
   signingCert: string,
   signingKey: string,
   wwdrCert: string
-): { isValid: boolean; diagnostics: string[] } {
+): { isValid: boolean; diagnostics: string[]; errors: PassSigningError[] } {
   const diagnostics: string[] = [];
+  const errors: PassSigningError[] = [];
   let isValid = true;
 
   try {
@@ -233,10 +235,29 @@ export function diagnosePassCertificates(
         diagnostics.push(`  Valid until: ${wwdrResult.details.validTo.toLocaleDateString()}`);
       }
     }
+
+    // Check them together exactly as the pass signer does, then sign a test manifest
+    const signingCheck = checkSigningCredentials({ signingCert, signingKey, wwdrCert });
+    errors.push(...signingCheck.errors);
+    if (signingCheck.identity) {
+      try {
+        signManifest(signingCheck.identity, Buffer.from('{}'));
+      } catch (error: any) {
+        errors.push(error);
+      }
+    }
+
+    if (errors.length > 0) {
+      isValid = false;
+      diagnostics.push('Pass Signing Issues:');
+      errors.forEach(error => diagnostics.push(`- [${error.code}] ${error.message}`));
+    } else {
+      diagnostics.push('✓ Test signature created (PKCS#7, SHA-256, WWDR chain included)');
+    }
   } catch (error: any) {
     isValid = false;
     diagnostics.push(`Unexpected error during certificate validation: ${error.message}`);
   }
 
-  return { isValid, diagnostics };
+  return { isValid, diagnostics, errors };
 }
\ No newline at end of file
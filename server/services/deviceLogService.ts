@@ -0,0 +1,196 @@
+import { db } from '@db';
+import { walletDeviceLogs, customerPasses, passSigningCredentials, type WalletDeviceLog } from '@db/schema';
+import { eq, and, or, lt, desc, ilike, isNull, count, min, max, sql } from 'drizzle-orm';
+
+// Logs are unauthenticated, so each request and message is capped
+const MAX_LOGS_PER_REQUEST = 20;
+const MAX_MESSAGE_LENGTH = 2000;
+// Oldest logs are dropped past this many, whatever their age
+const MAX_STORED_LOGS = 50_000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const MAX_GROUPS = 100;
+const MAX_GROUP_ENTRIES = 50;
+
+export interface DeviceLogGroup {
+  fingerprint: string;
+  // Most recent message in the group
+  message: string;
+  count: number;
+  passes: number;
+  firstSeen: Date | null;
+  lastSeen: Date | null;
+}
+
+export function getDeviceLogRetentionDays(): number {
+  const days = Number(process.env.WALLET_LOG_RETENTION_DAYS);
+  return days > 0 ? days : 30;
+}
+
+/**
+ * Whether an account may see lines matching no business (e.g. deleted passes or unknown pass types)
+ * Those are platform problems, so only the accounts in WALLET_LOG_ADMIN_EMAILS (comma-separated) see them
+ */
+export function canViewUnattributedLogs(email: string | null | undefined): boolean {
+  const admins = (process.env.WALLET_LOG_ADMIN_EMAILS || '')
+    .split(',')
+    .map(admin => admin.trim().toLowerCase())
+    .filter(Boolean);
+  return !!email && admins.includes(email.toLowerCase());
+}
+
+/**
+ * Mask what differs between repeats of the same problem: timestamps, serial numbers, counts
+ * e.g. "Get pass task (pass type pass.x, serial number #, if-modified-since ...) encountered error: ..."
+ */
+export function fingerprintMessage(message: string): string {
+  return message
+    .replace(/^\[[^\]]*\]\s*/, '')
+    .replace(/serial number [^\s,;)]+/gi, 'serial number *')
+    .replace(/\d+/g, '#')
+    .slice(0, 500);
+}
+
+/**
+ * Pull the pass type and serial number out of a Wallet log line, when it names them
+ */
+export function parseLogMessage(message: string): { passTypeIdentifier: string | null; serialNumber: string | null } {
+  return {
+    passTypeIdentifier: message.match(/\b(pass\.[A-Za-z0-9][\w.-]*\w)/)?.[1] ?? null,
+    serialNumber: message.match(/serial number ([^\s,;)]+)/i)?.[1] ?? null,
+  };
+}
+
+/**
+ * Service for storing and browsing the logs iOS devices post to the Wallet web service
+ */
+class DeviceLogService {
+  private lastPrunedAt = 0;
+
+  /**
+   * Store the lines from a /v1/log request
+   * Each line is attributed to a business through its serial number, or its pass type for
+   * businesses signing with their own certificate. Lines that match neither are stored without
+   * a business, for the accounts allowed by canViewUnattributedLogs.
+   */
+  async record(logs: unknown): Promise<number> {
+    if (!Array.isArray(logs)) {
+      return 0;
+    }
+    const messages = logs
+      .filter((log): log is string => typeof log === 'string' && log.trim().length > 0)
+      .slice(0, MAX_LOGS_PER_REQUEST)
+      .map(log => log.slice(0, MAX_MESSAGE_LENGTH));
+    if (messages.length === 0) {
+      return 0;
+    }
+
+    const rows = await Promise.all(messages.map(async message => {
+      const { passTypeIdentifier, serialNumber } = parseLogMessage(message);
+      return {
+        businessId: await this.findBusinessId(serialNumber, passTypeIdentifier),
+        serialNumber,
+        passTypeIdentifier,
+        message,
+        fingerprint: fingerprintMessage(message),
+      };
+    }));
+    await db.insert(walletDeviceLogs).values(rows);
+
+    if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+      this.lastPrunedAt = Date.now();
+      await this.prune();
+    }
+    return rows.length;
+  }
+
+  /**
+   * Repeated messages grouped together, most recently seen first
+   *
+   * @param businessId - The business whose logs to show, or null for lines matching no business
+   * @param search - Matched against the message and serial number
+   */
+  async getGroups(businessId: number | null, search?: string): Promise<DeviceLogGroup[]> {
+    const groups = await db
+      .select({
+        fingerprint: walletDeviceLogs.fingerprint,
+        message: sql<string>`(array_agg(${walletDeviceLogs.message} order by ${walletDeviceLogs.createdAt} desc))[1]`,
+        count: count(),
+        passes: sql<number>`count(distinct ${walletDeviceLogs.serialNumber})`.mapWith(Number),
+        firstSeen: min(walletDeviceLogs.createdAt),
+        lastSeen: max(walletDeviceLogs.createdAt),
+      })
+      .from(walletDeviceLogs)
+      .where(and(this.businessCondition(businessId), this.searchCondition(search)))
+      .groupBy(walletDeviceLogs.fingerprint)
+      .orderBy(desc(max(walletDeviceLogs.createdAt)))
+      .limit(MAX_GROUPS);
+    return groups;
+  }
+
+  /**
+   * The individual log lines of one group, newest first
+   */
+  async getGroupEntries(businessId: number | null, fingerprint: string, search?: string): Promise<WalletDeviceLog[]> {
+    return db.query.walletDeviceLogs.findMany({
+      where: and(
+        this.businessCondition(businessId),
+        eq(walletDeviceLogs.fingerprint, fingerprint),
+        this.searchCondition(search)
+      ),
+      orderBy: [desc(walletDeviceLogs.createdAt)],
+      limit: MAX_GROUP_ENTRIES,
+    });
+  }
+
+  /**
+   * Drop logs past the retention period (WALLET_LOG_RETENTION_DAYS, 30 by default) and past MAX_STORED_LOGS
+   */
+  async prune(): Promise<void> {
+    const cutoff = new Date(Date.now() - getDeviceLogRetentionDays() * 24 * 60 * 60 * 1000);
+    await db.delete(walletDeviceLogs).where(lt(walletDeviceLogs.createdAt, cutoff));
+
+    const [oldestKept] = await db
+      .select({ id: walletDeviceLogs.id })
+      .from(walletDeviceLogs)
+      .orderBy(desc(walletDeviceLogs.id))
+      .offset(MAX_STORED_LOGS - 1)
+      .limit(1);
+    if (oldestKept) {
+      await db.delete(walletDeviceLogs).where(lt(walletDeviceLogs.id, oldestKept.id));
+    }
+  }
+
+  private businessCondition(businessId: number | null) {
+    return businessId === null ? isNull(walletDeviceLogs.businessId) : eq(walletDeviceLogs.businessId, businessId);
+  }
+
+  private searchCondition(search?: string) {
+    if (!search) {
+      return undefined;
+    }
+    const pattern = `%${search.replace(/[\\%_]/g, '\\$&')}%`;
+    return or(ilike(walletDeviceLogs.message, pattern), ilike(walletDeviceLogs.serialNumber, pattern));
+  }
+
+  private async findBusinessId(serialNumber: string | null, passTypeIdentifier: string | null): Promise<number | null> {
+    if (serialNumber) {
+      const pass = await db.query.customerPasses.findFirst({
+        where: eq(customerPasses.serialNumber, serialNumber),
+        with: { card: { columns: { businessId: true } } },
+      });
+      if (pass?.card?.businessId) {
+        return pass.card.businessId;
+      }
+    }
+    if (passTypeIdentifier) {
+      const credential = await db.query.passSigningCredentials.findFirst({
+        where: eq(passSigningCredentials.passTypeIdentifier, passTypeIdentifier),
+        columns: { businessId: true },
+      });
+      return credential?.businessId ?? null;
+    }
+    return null;
+  }
+}
+
+export const deviceLogService = new DeviceLogService();
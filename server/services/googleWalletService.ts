@@ -0,0 +1,496 @@
+import crypto from 'crypto';
+import type { LoyaltyCard, Business, Customer, CustomerPass, BarcodeFormat } from '@db/schema';
+import { buildBarcodeMessage, getRotatingCode, getRotatingBarcodeDetails, getBarcodeFormat, getMemberNumberText } from './barcodeService';
+
+const WALLET_API_BASE = 'https://walletobjects.googleapis.com/walletobjects/v1';
+const OAUTH_TOKEN_URL = 'https://oauth2.googleapis.com/token';
+const WALLET_SCOPE = 'https://www.googleapis.com/auth/wallet_object.issuer';
+const SAVE_URL_BASE = 'https://pay.google.com/gp/v/save';
+
+type GoogleBarcodeType = 'QR_CODE' | 'PDF_417' | 'AZTEC' | 'CODE_128';
+
+const GOOGLE_BARCODE_TYPES: Record<BarcodeFormat, GoogleBarcodeType> = {
+  qr: 'QR_CODE',
+  pdf417: 'PDF_417',
+  aztec: 'AZTEC',
+  code128: 'CODE_128',
+};
+
+/**
+ * Service account credentials as downloaded from Google Cloud Console
+ * Only the fields we need for signing are typed here
+ */
+interface ServiceAccountKey {
+  client_email: string;
+  private_key: string;
+}
+
+export interface GoogleLoyaltyClass {
+  id: string;
+  issuerName: string;
+  programName: string;
+  programLogo: { sourceUri: { uri: string } };
+  hexBackgroundColor?: string;
+  reviewStatus: 'UNDER_REVIEW' | 'DRAFT';
+  rewardsTier?: string;
+  rewardsTierLabel?: string;
+}
+
+export interface GoogleLoyaltyObject {
+  id: string;
+  classId: string;
+  state: 'ACTIVE' | 'INACTIVE' | 'EXPIRED';
+  validTimeInterval?: { end: { date: string } };
+  accountId: string;
+  accountName: string;
+  loyaltyPoints: {
+    label: string;
+    balance: { int?: number; string?: string };
+  };
+  barcode?: {
+    type: GoogleBarcodeType;
+    value: string;
+    alternateText?: string;
+  };
+  // Generated on the device from the TOTP secret, for cards with rotating codes
+  rotatingBarcode?: {
+    type: GoogleBarcodeType;
+    valuePattern: string;
+    alternateText?: string;
+    totpDetails: {
+      periodMillis: string;
+      algorithm: 'TOTP_SHA1';
+      parameters: Array<{ key: string; valueLength: number }>;
+    };
+  };
+}
+
+/**
+ * Transport used to talk to the Google Wallet API
+ * The HTTP client hits Google; the fake keeps everything in memory for local development
+ */
+export interface GoogleWalletClient {
+  upsertClass(loyaltyClass: GoogleLoyaltyClass): Promise<void>;
+  upsertObject(loyaltyObject: GoogleLoyaltyObject): Promise<void>;
+  /**
+   * Patch an existing object
+   * Returns false if the object does not exist yet (the member never saved it)
+   */
+  patchObject(objectId: string, patch: Partial<GoogleLoyaltyObject>): Promise<boolean>;
+}
+
+function base64UrlJson(value: unknown): string {
+  return Buffer.from(JSON.stringify(value)).toString('base64url');
+}
+
+/**
+ * Sign a JWT with RS256 using the service account private key
+ */
+function signJwt(payload: Record<string, unknown>, privateKey: string): string {
+  const header = base64UrlJson({ alg: 'RS256', typ: 'JWT' });
+  const body = base64UrlJson(payload);
+  const signer = crypto.createSign('RSA-SHA256');
+  signer.update(`${header}.${body}`);
+  return `${header}.${body}.${signer.sign(privateKey).toString('base64url')}`;
+}
+
+/**
+ * Google Wallet REST client authenticated with an OAuth token minted from the service account
+ */
+export class HttpGoogleWalletClient implements GoogleWalletClient {
+  private accessToken: string | null = null;
+  private accessTokenExpiresAt = 0;
+
+  constructor(private serviceAccount: ServiceAccountKey) {}
+
+  private async getAccessToken(): Promise<string> {
+    // Refresh a minute early so in-flight requests never use an expired token
+    if (this.accessToken && Date.now() < this.accessTokenExpiresAt - 60_000) {
+      return this.accessToken;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const assertion = signJwt({
+      iss: this.serviceAccount.client_email,
+      scope: WALLET_SCOPE,
+      aud: OAUTH_TOKEN_URL,
+      iat: now,
+      exp: now + 3600,
+    }, this.serviceAccount.private_key);
+
+    const response = await fetch(OAUTH_TOKEN_URL, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        grant_type: 'urn:ietf:params:oauth:grant-type:jwt-bearer',
+        assertion,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Google OAuth token request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json() as { access_token: string; expires_in: number };
+    this.accessToken = data.access_token;
+    this.accessTokenExpiresAt = Date.now() + data.expires_in * 1000;
+    return this.accessToken;
+  }
+
+  private async request(method: string, path: string, body?: unknown): Promise<Response> {
+    const token = await this.getAccessToken();
+    return fetch(`${WALLET_API_BASE}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  private async upsert(resource: 'loyaltyClass' | 'loyaltyObject', id: string, body: unknown): Promise<void> {
+    const updated = await this.request('PUT', `/${resource}/${encodeURIComponent(id)}`, body);
+    if (updated.ok) {
+      return;
+    }
+    if (updated.status !== 404) {
+      throw new Error(`Google Wallet ${resource} update failed: ${updated.status} ${await updated.text()}`);
+    }
+
+    const inserted = await this.request('POST', `/${resource}`, body);
+    if (!inserted.ok) {
+      throw new Error(`Google Wallet ${resource} insert failed: ${inserted.status} ${await inserted.text()}`);
+    }
+  }
+
+  async upsertClass(loyaltyClass: GoogleLoyaltyClass): Promise<void> {
+    await this.upsert('loyaltyClass', loyaltyClass.id, loyaltyClass);
+  }
+
+  async upsertObject(loyaltyObject: GoogleLoyaltyObject): Promise<void> {
+    await this.upsert('loyaltyObject', loyaltyObject.id, loyaltyObject);
+  }
+
+  async patchObject(objectId: string, patch: Partial<GoogleLoyaltyObject>): Promise<boolean> {
+    const response = await this.request('PATCH', `/loyaltyObject/${encodeURIComponent(objectId)}`, patch);
+    if (response.status === 404) {
+      return false;
+    }
+    if (!response.ok) {
+      throw new Error(`Google Wallet loyaltyObject patch failed: ${response.status} ${await response.text()}`);
+    }
+    return true;
+  }
+}
+
+/**
+ * In-memory stand-in for the Google Wallet API
+ * Records every call so the enroll -> save -> scan flow can be exercised without Google credentials
+ */
+export class FakeGoogleWalletClient implements GoogleWalletClient {
+  readonly classes = new Map<string, GoogleLoyaltyClass>();
+  readonly objects = new Map<string, GoogleLoyaltyObject>();
+  readonly calls: Array<{ method: 'upsertClass' | 'upsertObject' | 'patchObject'; id: string }> = [];
+
+  async upsertClass(loyaltyClass: GoogleLoyaltyClass): Promise<void> {
+    this.calls.push({ method: 'upsertClass', id: loyaltyClass.id });
+    this.classes.set(loyaltyClass.id, loyaltyClass);
+  }
+
+  async upsertObject(loyaltyObject: GoogleLoyaltyObject): Promise<void> {
+    this.calls.push({ method: 'upsertObject', id: loyaltyObject.id });
+    if (!this.classes.has(loyaltyObject.classId)) {
+      throw new Error(`Fake Google Wallet: class ${loyaltyObject.classId} does not exist`);
+    }
+    this.objects.set(loyaltyObject.id, loyaltyObject);
+  }
+
+  async patchObject(objectId: string, patch: Partial<GoogleLoyaltyObject>): Promise<boolean> {
+    this.calls.push({ method: 'patchObject', id: objectId });
+    const existing = this.objects.get(objectId);
+    if (!existing) {
+      return false;
+    }
+    this.objects.set(objectId, { ...existing, ...patch });
+    return true;
+  }
+
+  /**
+   * Simulate the member tapping "Save to Google Wallet"
+   * Decodes the save JWT and stores the embedded objects like Google would
+   */
+  async save(saveJwt: string): Promise<void> {
+    const [, body] = saveJwt.split('.');
+    const claims = JSON.parse(Buffer.from(body, 'base64url').toString('utf8'));
+    for (const loyaltyObject of claims.payload?.loyaltyObjects ?? []) {
+      await this.upsertObject(loyaltyObject);
+    }
+  }
+}
+
+/**
+ * Google Wallet integration
+ * Mirrors each loyalty card as a loyalty class and each customer pass as a loyalty object
+ *
+ * Configuration:
+ * - GOOGLE_WALLET_ISSUER_ID: issuer ID from the Google Pay & Wallet console
+ * - GOOGLE_WALLET_SERVICE_ACCOUNT: service account key JSON
+ * - GOOGLE_WALLET_TRANSPORT: set to "fake" to use the in-memory client (no credentials needed)
+ */
+class GoogleWalletService {
+  private client: GoogleWalletClient | null = null;
+  private serviceAccount: ServiceAccountKey | null = null;
+  private issuerId = '';
+
+  constructor() {
+    this.initializeClient();
+  }
+
+  private initializeClient() {
+    if (process.env.GOOGLE_WALLET_TRANSPORT === 'fake') {
+      const { privateKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+      this.serviceAccount = {
+        client_email: 'fake-issuer@loyaltypro.local',
+        private_key: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+      };
+      this.issuerId = process.env.GOOGLE_WALLET_ISSUER_ID || '3388000000000000000';
+      this.client = new FakeGoogleWalletClient();
+      console.log('✅ Google Wallet initialized with in-memory fake transport');
+      return;
+    }
+
+    if (!process.env.GOOGLE_WALLET_ISSUER_ID || !process.env.GOOGLE_WALLET_SERVICE_ACCOUNT) {
+      console.warn('⚠️ Google Wallet credentials not configured. Google Wallet passes will be disabled.');
+      console.warn('Set GOOGLE_WALLET_ISSUER_ID and GOOGLE_WALLET_SERVICE_ACCOUNT to enable Google Wallet.');
+      return;
+    }
+
+    try {
+      const parsed = JSON.parse(process.env.GOOGLE_WALLET_SERVICE_ACCOUNT);
+      if (!parsed.client_email || !parsed.private_key) {
+        throw new Error('Service account JSON is missing client_email or private_key');
+      }
+      this.serviceAccount = { client_email: parsed.client_email, private_key: parsed.private_key };
+      this.issuerId = process.env.GOOGLE_WALLET_ISSUER_ID;
+      this.client = new HttpGoogleWalletClient(this.serviceAccount);
+      console.log('✅ Google Wallet client initialized successfully');
+    } catch (error: any) {
+      console.error('❌ Failed to initialize Google Wallet client:', error.message);
+      this.client = null;
+    }
+  }
+
+  isEnabled(): boolean {
+    return this.client !== null;
+  }
+
+  /**
+   * Expose the underlying transport (used to inspect the fake in development)
+   */
+  getClient(): GoogleWalletClient | null {
+    return this.client;
+  }
+
+  classIdForCard(cardId: number): string {
+    return `${this.issuerId}.card-${cardId}`;
+  }
+
+  objectIdForSerial(serialNumber: string): string {
+    // Object IDs may only contain alphanumerics, '.', '_' and '-'
+    return `${this.issuerId}.${serialNumber.replace(/[^\w.-]/g, '_')}`;
+  }
+
+  private formatBalance(card: LoyaltyCard, balance: number): GoogleLoyaltyObject['loyaltyPoints'] {
+    const design = card.design as any;
+    const loyaltyType = design.loyaltyType || 'stamps';
+
+    if (loyaltyType === 'stamps') {
+      const maxStamps = design.maxStamps || design.stamps || 10;
+      return { label: 'Stamps', balance: { string: `${balance}/${maxStamps}` } };
+    }
+    if (loyaltyType === 'membership') {
+      return { label: 'Visits', balance: { int: balance } };
+    }
+    return { label: 'Points', balance: { int: balance } };
+  }
+
+  buildLoyaltyClass(card: LoyaltyCard, business: Business, baseUrl: string): GoogleLoyaltyClass {
+    const design = card.design as any;
+    return {
+      id: this.classIdForCard(card.id),
+      issuerName: business.name,
+      programName: card.name,
+      programLogo: { sourceUri: { uri: `${baseUrl}/api/public/cards/${card.id}/logo.png` } },
+      hexBackgroundColor: design.backgroundColor || design.primaryColor || '#000000',
+      reviewStatus: 'UNDER_REVIEW',
+      rewardsTier: design.rewardDescription || undefined,
+      rewardsTierLabel: design.rewardDescription ? 'Reward' : undefined,
+    };
+  }
+
+  private getObjectState(pass: CustomerPass): GoogleLoyaltyObject['state'] {
+    if (pass.isActive === false) {
+      return 'INACTIVE';
+    }
+    return pass.expiresAt && pass.expiresAt <= new Date() ? 'EXPIRED' : 'ACTIVE';
+  }
+
+  /**
+   * The object's barcode; cards with rotating codes have Google generate the code on the device
+   */
+  private async buildBarcode(card: LoyaltyCard, pass: CustomerPass, customer: Customer): Promise<Pick<GoogleLoyaltyObject, 'barcode' | 'rotatingBarcode'>> {
+    const type = GOOGLE_BARCODE_TYPES[getBarcodeFormat(card)];
+    const alternateText = getMemberNumberText(card, customer.id);
+    const rotatingCode = await getRotatingCode(card, pass.serialNumber);
+    if (!rotatingCode) {
+      return {
+        barcode: {
+          type,
+          value: buildBarcodeMessage(card.id, customer.id, pass.serialNumber),
+          alternateText,
+        },
+      };
+    }
+
+    const rotating = getRotatingBarcodeDetails(card.id, customer.id, pass.serialNumber, rotatingCode);
+    return {
+      rotatingBarcode: {
+        type,
+        valuePattern: `${rotating.prefix}{totp_value_0}`,
+        alternateText,
+        totpDetails: {
+          periodMillis: `${rotatingCode.period * 1000}`,
+          algorithm: 'TOTP_SHA1',
+          parameters: [{ key: rotating.secretHex, valueLength: rotating.digits }],
+        },
+      },
+    };
+  }
+
+  async buildLoyaltyObject(card: LoyaltyCard, pass: CustomerPass, customer: Customer): Promise<GoogleLoyaltyObject> {
+    return {
+      id: this.objectIdForSerial(pass.serialNumber),
+      classId: this.classIdForCard(card.id),
+      state: this.getObjectState(pass),
+      validTimeInterval: pass.expiresAt ? { end: { date: pass.expiresAt.toISOString() } } : undefined,
+      accountId: `${customer.id}`,
+      accountName: customer.name,
+      loyaltyPoints: this.formatBalance(card, pass.currentBalance || 0),
+      ...(await this.buildBarcode(card, pass, customer)),
+    };
+  }
+
+  /**
+   * Create or update the loyalty class for a card
+   * Called whenever a card is created or edited so Google shows the latest branding
+   */
+  async syncCardClass(card: LoyaltyCard, business: Business, baseUrl: string): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+    await this.client.upsertClass(this.buildLoyaltyClass(card, business, baseUrl));
+    console.log(`✅ Synced Google Wallet class for card: ${card.id}`);
+  }
+
+  /**
+   * Build a signed "Save to Google Wallet" link for a customer pass
+   * The loyalty object is embedded in the JWT, so Google creates it when the member saves it
+   *
+   * @returns The save URL, or null when Google Wallet is not configured
+   */
+  async createSaveUrl(
+    card: LoyaltyCard,
+    business: Business,
+    customer: Customer,
+    pass: CustomerPass,
+    baseUrl: string,
+  ): Promise<string | null> {
+    if (!this.client || !this.serviceAccount) {
+      return null;
+    }
+
+    await this.syncCardClass(card, business, baseUrl);
+
+    const token = signJwt({
+      iss: this.serviceAccount.client_email,
+      aud: 'google',
+      typ: 'savetowallet',
+      iat: Math.floor(Date.now() / 1000),
+      origins: [baseUrl],
+      payload: {
+        loyaltyObjects: [await this.buildLoyaltyObject(card, pass, customer)],
+      },
+    }, this.serviceAccount.private_key);
+
+    return `${SAVE_URL_BASE}/${token}`;
+  }
+
+  /**
+   * Create the loyalty object for a pass right away and return its save link
+   * Used for reissued passes: Google can't swap the object a member already saved, so the
+   * replacement has to exist for balance updates to reach it before the member saves it
+   *
+   * @returns The save URL, or null when Google Wallet is not configured
+   */
+  async createPassObject(
+    card: LoyaltyCard,
+    business: Business,
+    customer: Customer,
+    pass: CustomerPass,
+    baseUrl: string,
+  ): Promise<string | null> {
+    const saveUrl = await this.createSaveUrl(card, business, customer, pass, baseUrl);
+    if (!saveUrl || !this.client) {
+      return null;
+    }
+
+    await this.client.upsertObject(await this.buildLoyaltyObject(card, pass, customer));
+    console.log(`✅ Created Google Wallet object for pass: ${pass.serialNumber}`);
+    return saveUrl;
+  }
+
+  /**
+   * Push a new balance to the member's Google Wallet object
+   * The Google counterpart of pushQueueService.enqueue
+   *
+   * @param serialNumber - The serial number of the pass that was updated
+   */
+  async updatePassBalance(card: LoyaltyCard, serialNumber: string, balance: number): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    const objectId = this.objectIdForSerial(serialNumber);
+    const patched = await this.client.patchObject(objectId, {
+      loyaltyPoints: this.formatBalance(card, balance),
+    });
+
+    if (patched) {
+      console.log(`✅ Google Wallet object updated for pass: ${serialNumber}`);
+    } else {
+      console.log(`ℹ️ No Google Wallet object saved for pass: ${serialNumber}`);
+    }
+  }
+
+  /**
+   * Push a voided, expired or reactivated pass to the member's Google Wallet object
+   */
+  async updatePassStatus(pass: CustomerPass): Promise<void> {
+    if (!this.client) {
+      return;
+    }
+
+    const patched = await this.client.patchObject(this.objectIdForSerial(pass.serialNumber), {
+      state: this.getObjectState(pass),
+      validTimeInterval: pass.expiresAt ? { end: { date: pass.expiresAt.toISOString() } } : undefined,
+    });
+
+    if (patched) {
+      console.log(`✅ Google Wallet object status updated for pass: ${pass.serialNumber}`);
+    }
+  }
+}
+
+// Export a singleton instance
+export const googleWalletService = new GoogleWalletService();
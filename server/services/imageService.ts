@@ -6,17 +6,18 @@ export type ProcessedImage = {
   size: number;
 };
 
-export async function processImage(base64Image: string): Promise<ProcessedImage> {
+export async function processImage(base64Image: string, maxSize: number = 480): Promise<ProcessedImage> {
   try {
     // Remove data URL prefix if present
     const base64Data = base64Image.replace(/^data:image\/\w+;base64,/, '');
     const buffer = Buffer.from(base64Data, 'base64');
 
     // Process image with Sharp
+    // Default keeps enough resolution for the largest Wallet asset (logo@3x is 480x150)
     const processed = await sharp(buffer)
-      .resize(200, 200, {
-        fit: 'contain',
-        background: { r: 255, g: 255, b: 255, alpha: 0 }
+      .resize(maxSize, maxSize, {
+        fit: 'inside',
+        withoutEnlargement: true
       })
       .toFormat('png')
       .toBuffer();
@@ -54,4 +55,38 @@ export function validateImage(base64Image: string): boolean {
     console.error('Image validation error:', error);
     return false;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Decode a stored data URL image (card or business logo) into raw bytes
+ * Returns null for anything that is not an inline base64 image
+ */
+export function decodeImageDataUrl(image: string | null | undefined): Buffer | null {
+  if (!image || !image.startsWith('data:image/')) return null;
+
+  const base64Data = image.replace(/^data:image\/[\w+.-]+;base64,/, '');
+  const buffer = Buffer.from(base64Data, 'base64');
+  return buffer.length > 0 ? buffer : null;
+}
+
+/**
+ * Fit an image inside a width x height box, keeping its aspect ratio and alpha channel
+ * Transparent padding is trimmed first so the artwork fills as much of the box as possible
+ */
+export async function fitImage(buffer: Buffer, width: number, height: number): Promise<Buffer> {
+  let source = buffer;
+  try {
+    source = await sharp(buffer).trim().png().toBuffer();
+  } catch (error) {
+    // Trimming fails on images with a single flat color - use the original
+  }
+
+  return sharp(source)
+    .resize(width, height, {
+      fit: 'inside',
+      background: { r: 0, g: 0, b: 0, alpha: 0 }
+    })
+    .ensureAlpha()
+    .png()
+    .toBuffer();
+}
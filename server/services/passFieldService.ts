@@ -0,0 +1,171 @@
+import type { LoyaltyCard, Business, Customer, Branch } from '@db/schema';
+import { DEFAULT_FIELD_LAYOUT, MAX_FRONT_ROW_FIELDS, upgradeFieldLayout, type PassField, type FieldLayout } from '@db/fieldLayout';
+import { localize, formatPointsAway, formatDefaultTerms, getCardTranslation, type PassLanguage } from './passLocalization';
+
+/**
+ * A resolved pass.json field
+ * Extra keys (dateStyle, textAlignment...) are passed through to Wallet as-is
+ */
+export interface ResolvedPassField {
+  key: string;
+  label?: string;
+  value: string;
+  [option: string]: string | undefined;
+}
+
+export interface ResolvedPassFields {
+  primaryFields: ResolvedPassField[];
+  secondaryFields: ResolvedPassField[];
+  auxiliaryFields: ResolvedPassField[];
+  backFields: ResolvedPassField[];
+}
+
+export interface PassFieldContext {
+  card: LoyaltyCard;
+  business: Business;
+  customer?: Customer;
+  currentBalance: number;
+  // Branches the card is valid at
+  branches?: Branch[];
+  // When the member last completed a reward (customerPasses.lastRewardAt)
+  lastRewardAt?: Date | null;
+  // Defaults to English, the language pass.json is written in
+  language?: PassLanguage;
+}
+
+/**
+ * Get a card's field layout, falling back to the default layout
+ * Layouts saved by an older version of the editor are upgraded (see upgradeFieldLayout)
+ */
+export function getFieldLayout(card: LoyaltyCard): FieldLayout {
+  const design = card.design as any;
+  return upgradeFieldLayout(design.fieldLayout || DEFAULT_FIELD_LAYOUT);
+}
+
+function getBalanceLabel(loyaltyType: string): string {
+  switch (loyaltyType) {
+    case 'stamps': return 'STAMPS';
+    case 'membership': return 'VISITS';
+    default: return 'POINTS';
+  }
+}
+
+/**
+ * Resolve one configured field against the pass data
+ * Returns null when there is nothing to show (e.g. no customer on a preview pass),
+ * so the slot is left out of pass.json instead of showing an empty value
+ */
+function resolveField(field: PassField, layout: FieldLayout, context: PassFieldContext): ResolvedPassField | null {
+  const { card, business, customer, currentBalance, language = 'en' } = context;
+  const design = card.design as any;
+  const loyaltyType = design.loyaltyType || 'stamps';
+  const maxStamps = design.maxStamps || design.stamps || 10;
+  const translation = getCardTranslation(card, language);
+  // A label matching the English default is not a customization, so it still gets translated
+  const withLabel = (defaultLabel: string, value: string | null | undefined, options: Record<string, string> = {}) => {
+    const label = field.label && field.label !== defaultLabel ? field.label : localize(defaultLabel, language);
+    return value ? { key: field.key, label, value, ...options } : null;
+  };
+
+  switch (field.source) {
+    case 'balance':
+      return withLabel(
+        getBalanceLabel(loyaltyType),
+        loyaltyType === 'stamps' ? `${currentBalance}/${maxStamps}` : currentBalance.toString()
+      );
+    case 'memberName':
+      return withLabel('MEMBER', customer?.name);
+    case 'businessName':
+      return withLabel('BUSINESS', business.name);
+    case 'memberSince':
+      // Wallet formats ISO dates in the device locale
+      return withLabel('MEMBER SINCE', customer?.createdAt?.toISOString(), { dateStyle: 'PKDateStyleMedium' });
+    case 'visits':
+      return withLabel('VISITS', customer?.totalVisits ? customer.totalVisits.toString() : null);
+    case 'nextReward': {
+      if (loyaltyType !== 'points' || !design.rewardThreshold) {
+        return null;
+      }
+      const pointsToReward = Math.max(0, design.rewardThreshold - currentBalance);
+      return withLabel('NEXT REWARD', pointsToReward > 0 ? formatPointsAway(pointsToReward, language) : localize('Reward available!', language));
+    }
+    case 'rewardDescription':
+      return withLabel('Reward', translation?.rewardDescription || design.rewardDescription);
+    case 'memberId':
+      return withLabel('Member ID', customer?.id ? `#${customer.id}` : null);
+    case 'cardId':
+      return withLabel('Card ID', `#${card.id}`);
+    case 'phone':
+      return withLabel('Contact Phone', business.phone);
+    case 'address':
+      return withLabel('Address', business.address);
+    case 'website':
+      return withLabel('Website', business.website);
+    case 'locations':
+      return withLabel('Locations', (context.branches || [])
+        .map(branch => [branch.name, branch.address, branch.openingHours].filter(Boolean).join('\n'))
+        .join('\n\n'));
+    case 'lastReward':
+      // Each reward changes the date, which is what makes Wallet show the change message
+      return withLabel('Latest Reward', context.lastRewardAt?.toISOString(), {
+        dateStyle: 'PKDateStyleMedium',
+        timeStyle: 'PKDateStyleShort',
+      });
+    case 'terms':
+      return withLabel(
+        'Terms and Conditions',
+        translation?.terms || layout.termsText || formatDefaultTerms(business.name, loyaltyType, language)
+      );
+    case 'static':
+      return withLabel('', field.value);
+    default:
+      return null;
+  }
+}
+
+function getDefaultChangeMessage(source: PassField['source'], loyaltyType: string): string | undefined {
+  switch (source) {
+    case 'balance':
+      if (loyaltyType === 'membership') return 'Visits: %@';
+      return loyaltyType === 'points' ? 'You now have %@ points' : 'You now have %@ stamps';
+    case 'lastReward':
+      return 'Reward unlocked!';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * The lock-screen message Wallet shows when the field's value changes after an update
+ * Fields without one are updated silently
+ */
+function resolveChangeMessage(field: PassField, context: PassFieldContext): string | undefined {
+  const { card, language = 'en' } = context;
+  if (field.changeMessage !== undefined) {
+    return getCardTranslation(card, language)?.changeMessages?.[field.key] || field.changeMessage || undefined;
+  }
+  const defaultMessage = getDefaultChangeMessage(field.source, (card.design as any).loyaltyType || 'stamps');
+  return defaultMessage && localize(defaultMessage, language);
+}
+
+/**
+ * Build the primary/secondary/auxiliary/back fields for a pass from the card's field layout
+ */
+export function buildPassFields(context: PassFieldContext): ResolvedPassFields {
+  const layout = getFieldLayout(context.card);
+  const resolve = (fields: PassField[]) => fields
+    .map(field => {
+      const resolved = resolveField(field, layout, context);
+      const changeMessage = resolved && resolveChangeMessage(field, context);
+      return changeMessage ? { ...resolved, changeMessage } : resolved;
+    })
+    .filter((field): field is ResolvedPassField => field !== null);
+
+  return {
+    primaryFields: resolve(layout.primaryFields),
+    secondaryFields: resolve(layout.secondaryFields),
+    // Layouts saved before the store card limit may have more; Wallet would drop the extras anyway
+    auxiliaryFields: resolve(layout.auxiliaryFields.slice(0, Math.max(0, MAX_FRONT_ROW_FIELDS - layout.secondaryFields.length))),
+    backFields: resolve(layout.backFields),
+  };
+}
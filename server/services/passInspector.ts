@@ -0,0 +1,558 @@
+import crypto, { X509Certificate } from 'crypto';
+import forge from 'node-forge';
+import sharp from 'sharp';
+import { z } from 'zod';
+import { formatPEM } from './certificateService';
+
+export type InspectionSection = 'archive' | 'manifest' | 'signature' | 'pass.json' | 'images';
+export type InspectionStatus = 'pass' | 'warning' | 'error';
+
+export interface InspectionCheck {
+  section: InspectionSection;
+  status: InspectionStatus;
+  message: string;
+}
+
+/**
+ * Readable result of inspecting a .pkpass
+ * valid is false when any check is an error, i.e. Wallet would refuse the pass
+ */
+export interface PassInspectionReport {
+  valid: boolean;
+  checks: InspectionCheck[];
+  files: Array<{ name: string; size: number }>;
+  pass?: {
+    passTypeIdentifier?: string;
+    teamIdentifier?: string;
+    serialNumber?: string;
+    organizationName?: string;
+    description?: string;
+    style?: string;
+  };
+  signature?: {
+    digestAlgorithm: string;
+    signingTime: string | null;
+    signer: string | null;
+    issuer: string | null;
+    validTo: string | null;
+  };
+}
+
+const PASS_STYLES = ['boardingPass', 'coupon', 'eventTicket', 'generic', 'storeCard'] as const;
+
+// Largest image Wallet displays, in points; @2x/@3x files may be 2x/3x this
+const IMAGE_LIMITS: Record<string, { width: number; height: number }> = {
+  icon: { width: 29, height: 29 },
+  logo: { width: 160, height: 50 },
+  strip: { width: 375, height: 144 },
+  thumbnail: { width: 90, height: 90 },
+  background: { width: 180, height: 220 },
+  footer: { width: 286, height: 15 },
+};
+
+// Images each pass style shows; anything else in the bundle is ignored by Wallet
+const STYLE_IMAGES: Record<typeof PASS_STYLES[number], string[]> = {
+  boardingPass: ['icon', 'logo', 'footer'],
+  coupon: ['icon', 'logo', 'strip'],
+  eventTicket: ['icon', 'logo', 'strip', 'background', 'thumbnail'],
+  generic: ['icon', 'logo', 'thumbnail'],
+  storeCard: ['icon', 'logo', 'strip'],
+};
+
+const RGB_COLOR = /^rgb\(\s*\d{1,3}\s*,\s*\d{1,3}\s*,\s*\d{1,3}\s*\)$/;
+const dateSchema = z.string().refine(value => !isNaN(Date.parse(value)), 'must be an ISO 8601 date');
+
+const fieldSchema = z.object({
+  key: z.string().min(1),
+  value: z.union([z.string(), z.number()]),
+  label: z.string().optional(),
+  changeMessage: z.string().optional(),
+}).passthrough();
+
+const passStructureSchema = z.object({
+  headerFields: z.array(fieldSchema).max(3).optional(),
+  primaryFields: z.array(fieldSchema).optional(),
+  secondaryFields: z.array(fieldSchema).optional(),
+  auxiliaryFields: z.array(fieldSchema).optional(),
+  backFields: z.array(fieldSchema).optional(),
+  transitType: z.string().optional(),
+}).passthrough();
+
+const barcodeSchema = z.object({
+  message: z.string().min(1),
+  format: z.enum(['PKBarcodeFormatQR', 'PKBarcodeFormatPDF417', 'PKBarcodeFormatAztec', 'PKBarcodeFormatCode128']),
+  messageEncoding: z.string().min(1),
+  altText: z.string().optional(),
+});
+
+/**
+ * The parts of Apple's pass.json format that Wallet enforces
+ */
+const passJsonSchema = z.object({
+  formatVersion: z.literal(1),
+  passTypeIdentifier: z.string().min(1),
+  serialNumber: z.string().min(1),
+  teamIdentifier: z.string().min(1),
+  organizationName: z.string().min(1),
+  description: z.string().min(1),
+  logoText: z.string().optional(),
+  foregroundColor: z.string().optional(),
+  backgroundColor: z.string().optional(),
+  labelColor: z.string().optional(),
+  webServiceURL: z.string().url().optional(),
+  authenticationToken: z.string().min(16).optional(),
+  barcodes: z.array(barcodeSchema).optional(),
+  barcode: barcodeSchema.optional(),
+  locations: z.array(z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+    relevantText: z.string().optional(),
+  }).passthrough()).max(10).optional(),
+  maxDistance: z.number().positive().optional(),
+  relevantDate: dateSchema.optional(),
+  expirationDate: dateSchema.optional(),
+  voided: z.boolean().optional(),
+  boardingPass: passStructureSchema.optional(),
+  coupon: passStructureSchema.optional(),
+  eventTicket: passStructureSchema.optional(),
+  generic: passStructureSchema.optional(),
+  storeCard: passStructureSchema.optional(),
+}).passthrough();
+
+// Serial numbers in SignerInfo keep leading zero bytes that X509Certificate drops
+function normalizeSerial(hex: string): string {
+  return hex.toLowerCase().replace(/^0+/, '');
+}
+
+function getSubjectField(cert: X509Certificate, name: string): string | null {
+  const line = cert.subject.split('\n').find(entry => entry.startsWith(`${name}=`));
+  return line ? line.slice(name.length + 1) : null;
+}
+
+function describeCertificate(cert: X509Certificate): string {
+  return getSubjectField(cert, 'CN') || cert.subject.replace(/\n/g, ', ');
+}
+
+interface ParsedSignature {
+  detached: boolean;
+  certificates: X509Certificate[];
+  signerSerial: string;
+  digestAlgorithm: string;
+  messageDigest: Buffer | null;
+  signingTime: Date | null;
+  signedAttributes: Buffer | null;
+  signature: Buffer;
+}
+
+/**
+ * Pull the pieces needed for verification out of a detached PKCS#7 signature
+ * Walks the ASN.1 directly: node-forge can't verify signatures or read EC certificates
+ */
+function parseSignature(der: Buffer): ParsedSignature {
+  const { asn1 } = forge;
+  const children = (node: forge.asn1.Asn1) => node.value as forge.asn1.Asn1[];
+  const isContextTag = (node: forge.asn1.Asn1, tag: number) =>
+    node.tagClass === asn1.Class.CONTEXT_SPECIFIC && node.type === tag;
+
+  const contentInfo = asn1.fromDer(der.toString('binary'));
+  const [contentType, wrapped] = children(contentInfo);
+  if (asn1.derToOid(contentType.value as string) !== forge.pki.oids.signedData) {
+    throw new Error('Not a PKCS#7 SignedData structure');
+  }
+
+  const signedData = children(children(wrapped)[0]);
+  const encapsulatedContent = signedData[2];
+  const certificatesNode = signedData.find(node => isContextTag(node, 0));
+  const signerInfos = children(signedData[signedData.length - 1]);
+  if (signerInfos.length !== 1) {
+    throw new Error(`Expected one signer, found ${signerInfos.length}`);
+  }
+
+  const signerInfo = children(signerInfos[0]);
+  const issuerAndSerial = children(signerInfo[1]);
+  const digestAlgorithmOid = asn1.derToOid(children(signerInfo[2])[0].value as string);
+  const attributesNode = signerInfo.find(node => isContextTag(node, 0));
+  const signatureNode = signerInfo.find(node => node.tagClass === asn1.Class.UNIVERSAL && node.type === asn1.Type.OCTETSTRING);
+  if (!signatureNode) {
+    throw new Error('Signer has no signature value');
+  }
+
+  let messageDigest: Buffer | null = null;
+  let signingTime: Date | null = null;
+  for (const attribute of attributesNode ? children(attributesNode) : []) {
+    const [type, values] = children(attribute);
+    const value = children(values)[0];
+    const oid = asn1.derToOid(type.value as string);
+    if (oid === forge.pki.oids.messageDigest) {
+      messageDigest = Buffer.from(value.value as string, 'binary');
+    } else if (oid === forge.pki.oids.signingTime) {
+      signingTime = value.type === asn1.Type.UTCTIME
+        ? asn1.utcTimeToDate(value.value as string)
+        : asn1.generalizedTimeToDate(value.value as string);
+    }
+  }
+
+  // The signature covers the attributes DER-encoded as a SET, not with their [0] tag
+  const signedAttributes = attributesNode
+    ? Buffer.from(asn1.toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, children(attributesNode))).getBytes(), 'binary')
+    : null;
+
+  return {
+    detached: children(encapsulatedContent).length === 1,
+    certificates: (certificatesNode ? children(certificatesNode) : [])
+      .map(cert => new X509Certificate(Buffer.from(asn1.toDer(cert).getBytes(), 'binary'))),
+    signerSerial: forge.util.bytesToHex(issuerAndSerial[1].value as string),
+    digestAlgorithm: (forge.pki.oids as Record<string, string>)[digestAlgorithmOid] || digestAlgorithmOid,
+    messageDigest,
+    signingTime,
+    signedAttributes,
+    signature: Buffer.from(signatureNode.value as string, 'binary'),
+  };
+}
+
+function checkSignature(
+  manifest: Buffer,
+  signatureFile: Buffer,
+  passJson: any,
+  add: (status: InspectionStatus, message: string) => void
+): PassInspectionReport['signature'] {
+  let parsed: ParsedSignature;
+  try {
+    parsed = parseSignature(signatureFile);
+  } catch (error: any) {
+    add('error', `signature is not a valid PKCS#7 signature: ${error.message}`);
+    return undefined;
+  }
+
+  if (!parsed.detached) {
+    add('error', 'Signature embeds the manifest; Wallet requires a detached signature');
+  }
+
+  // The digest checks below can't run with an algorithm Node doesn't know
+  if (!['sha1', 'sha256'].includes(parsed.digestAlgorithm)) {
+    add('error', `Unsupported digest algorithm ${parsed.digestAlgorithm}`);
+    return undefined;
+  }
+  add('pass', `Digest algorithm is ${parsed.digestAlgorithm.toUpperCase()}`);
+
+  const signer = parsed.certificates.find(cert => normalizeSerial(cert.serialNumber) === normalizeSerial(parsed.signerSerial));
+  if (!signer) {
+    add('error', 'Signature does not include the signing certificate');
+    return undefined;
+  }
+
+  if (!parsed.signedAttributes || !parsed.messageDigest) {
+    add('error', 'Signature has no signed attributes (content type, message digest, signing time)');
+  } else {
+    const digest = crypto.createHash(parsed.digestAlgorithm).update(manifest).digest();
+    if (!digest.equals(parsed.messageDigest)) {
+      add('error', 'Signature was made over a different manifest.json');
+    } else {
+      add('pass', 'Signature covers this manifest.json');
+    }
+
+    let verified = false;
+    try {
+      verified = crypto.verify(parsed.digestAlgorithm, parsed.signedAttributes, signer.publicKey, parsed.signature);
+    } catch (error: any) {
+      add('error', `Could not verify the signature: ${error.message}`);
+    }
+    if (verified) {
+      add('pass', `Signature verifies against ${describeCertificate(signer)}`);
+    } else {
+      add('error', 'Signature does not verify against the signing certificate');
+    }
+  }
+
+  // Wallet needs the WWDR intermediate inside the signature to build the chain to Apple's root
+  const intermediate = parsed.certificates.find(cert => cert !== signer && signer.checkIssued(cert));
+  if (!intermediate) {
+    add('error', 'Signature does not include the WWDR certificate that issued the signing certificate');
+  } else if (!signer.verify(intermediate.publicKey)) {
+    add('error', `Signing certificate claims to be issued by ${describeCertificate(intermediate)} but its signature does not match`);
+  } else {
+    add('pass', `Includes the issuing WWDR certificate (${describeCertificate(intermediate)})`);
+  }
+
+  if (process.env.APPLE_WWDR_CERT) {
+    try {
+      const wwdr = new X509Certificate(formatPEM(process.env.APPLE_WWDR_CERT, 'CERTIFICATE'));
+      if (signer.checkIssued(wwdr) && signer.verify(wwdr.publicKey)) {
+        add('pass', 'Signing certificate was issued by the configured APPLE_WWDR_CERT');
+      } else {
+        add('error', `Signing certificate was not issued by the configured APPLE_WWDR_CERT (${describeCertificate(wwdr)})`);
+      }
+    } catch (error: any) {
+      add('warning', `Could not read APPLE_WWDR_CERT: ${error.message}`);
+    }
+  } else {
+    add('warning', 'APPLE_WWDR_CERT is not configured; the chain was only checked against the certificates in the signature');
+  }
+
+  const checkedAt = parsed.signingTime || new Date();
+  for (const [name, cert] of [['Signing certificate', signer], ['WWDR certificate', intermediate]] as const) {
+    if (!cert) continue;
+    const validFrom = new Date(cert.validFrom);
+    const validTo = new Date(cert.validTo);
+    if (checkedAt < validFrom || checkedAt > validTo) {
+      add('error', `${name} was not valid when the pass was signed (valid ${validFrom.toDateString()} to ${validTo.toDateString()})`);
+    } else if (new Date() > validTo) {
+      add('warning', `${name} has expired since the pass was signed (${validTo.toDateString()}); Wallet will reject updates`);
+    }
+  }
+  if (!parsed.signingTime) {
+    add('warning', 'Signature has no signing time');
+  }
+
+  // The certificate is only valid for its own pass type and team
+  const passTypeIdentifier = getSubjectField(signer, 'UID');
+  const teamIdentifier = getSubjectField(signer, 'OU');
+  if (passJson) {
+    if (passTypeIdentifier && passJson.passTypeIdentifier !== passTypeIdentifier) {
+      add('error', `pass.json passTypeIdentifier ${passJson.passTypeIdentifier} does not match the certificate (${passTypeIdentifier})`);
+    }
+    if (teamIdentifier && passJson.teamIdentifier !== teamIdentifier) {
+      add('error', `pass.json teamIdentifier ${passJson.teamIdentifier} does not match the certificate (${teamIdentifier})`);
+    }
+  }
+  if (!passTypeIdentifier) {
+    add('warning', 'Signing certificate has no pass type identifier (UID); is it a Pass Type ID certificate?');
+  }
+
+  return {
+    digestAlgorithm: parsed.digestAlgorithm,
+    signingTime: parsed.signingTime?.toISOString() ?? null,
+    signer: describeCertificate(signer),
+    issuer: intermediate ? describeCertificate(intermediate) : null,
+    validTo: new Date(signer.validTo).toISOString(),
+  };
+}
+
+function checkPassJson(passJson: any, add: (status: InspectionStatus, message: string) => void): string | undefined {
+  const result = passJsonSchema.safeParse(passJson);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      add('error', `${issue.path.join('.') || 'pass.json'}: ${issue.message}`);
+    }
+  }
+
+  const styles = PASS_STYLES.filter(style => passJson[style]);
+  if (styles.length !== 1) {
+    add('error', styles.length === 0
+      ? `pass.json needs one of ${PASS_STYLES.join(', ')}`
+      : `pass.json has more than one pass style (${styles.join(', ')})`);
+  }
+  const style = styles[0];
+
+  if (style === 'boardingPass' && !passJson.boardingPass.transitType) {
+    add('error', 'boardingPass.transitType is required');
+  }
+
+  // Field keys identify fields for change messages and localization, so they must be unique
+  if (style) {
+    const keys = Object.values(passJson[style])
+      .filter(Array.isArray)
+      .flat()
+      .map((field: any) => field?.key);
+    const duplicates = keys.filter((key, index) => keys.indexOf(key) !== index);
+    if (duplicates.length > 0) {
+      add('error', `Duplicate field keys: ${Array.from(new Set(duplicates)).join(', ')}`);
+    }
+  }
+
+  // Apple's format only defines rgb() colors; other notations may not render on every iOS version
+  for (const key of ['foregroundColor', 'backgroundColor', 'labelColor']) {
+    if (typeof passJson[key] === 'string' && !RGB_COLOR.test(passJson[key])) {
+      add('warning', `${key} ${passJson[key]} is not in Apple's rgb(r, g, b) format`);
+    }
+  }
+
+  if (passJson.webServiceURL) {
+    if (!passJson.authenticationToken) {
+      add('error', 'webServiceURL is set but authenticationToken is missing');
+    }
+    if (!String(passJson.webServiceURL).startsWith('https://')) {
+      add('warning', 'webServiceURL is not HTTPS; devices only allow this with the developer setting "Allow HTTP Services"');
+    }
+  } else {
+    add('warning', 'No webServiceURL; the pass can never be updated');
+  }
+
+  if (!passJson.barcodes?.length && !passJson.barcode) {
+    add('warning', 'Pass has no barcode');
+  }
+
+  if (result.success && styles.length === 1) {
+    add('pass', `pass.json is a valid ${style} pass`);
+  }
+  return style;
+}
+
+async function checkImages(
+  images: Array<{ name: string; content: Buffer }>,
+  style: string | undefined,
+  add: (status: InspectionStatus, message: string) => void
+) {
+  const shownImages = style ? STYLE_IMAGES[style as typeof PASS_STYLES[number]] : undefined;
+  const present = new Set<string>();
+
+  for (const { name, content } of images) {
+    const match = name.match(/^(?:[\w-]+\.lproj\/)?([a-z]+)(?:@([23])x)?\.png$/);
+    if (!match) {
+      continue;
+    }
+    const [, base, scaleText] = match;
+    const scale = scaleText ? parseInt(scaleText) : 1;
+    present.add(base);
+
+    const limit = IMAGE_LIMITS[base];
+    if (!limit) {
+      add('warning', `${name} is not an image Wallet uses`);
+      continue;
+    }
+    if (shownImages && !shownImages.includes(base)) {
+      add('warning', `${name} is ignored by ${style} passes`);
+    }
+
+    try {
+      const metadata = await sharp(content).metadata();
+      if (metadata.format !== 'png') {
+        add('error', `${name} is ${metadata.format}, not PNG`);
+      } else if ((metadata.width || 0) > limit.width * scale || (metadata.height || 0) > limit.height * scale) {
+        add('warning', `${name} is ${metadata.width}x${metadata.height}; Wallet shows at most ${limit.width * scale}x${limit.height * scale}`);
+      }
+    } catch (error: any) {
+      add('error', `${name} could not be read: ${error.message}`);
+    }
+  }
+
+  if (!present.has('icon')) {
+    add('error', 'icon.png is missing; Wallet will not install the pass');
+  }
+  const names = new Set(images.map(image => image.name));
+  for (const base of Array.from(present)) {
+    if (IMAGE_LIMITS[base] && names.has(`${base}.png`) && !names.has(`${base}@2x.png`)) {
+      add('warning', `${base}@2x.png is missing; the image will look blurry on Retina screens`);
+    }
+  }
+}
+
+/**
+ * Check a .pkpass the way Wallet does: archive contents, manifest hashes,
+ * PKCS#7 signature and certificate chain, pass.json and images
+ */
+export async function inspectPass(pkpass: Buffer): Promise<PassInspectionReport> {
+  const checks: InspectionCheck[] = [];
+  const adder = (section: InspectionSection) => (status: InspectionStatus, message: string) => {
+    checks.push({ section, status, message });
+  };
+  const report = (extra: Partial<PassInspectionReport> = {}): PassInspectionReport => ({
+    valid: !checks.some(check => check.status === 'error'),
+    checks,
+    files: [],
+    ...extra,
+  });
+
+  const addArchive = adder('archive');
+  const JSZip = (await import('jszip')).default;
+  let zip;
+  try {
+    zip = await JSZip.loadAsync(pkpass);
+  } catch (error: any) {
+    addArchive('error', `Not a zip archive: ${error.message}`);
+    return report();
+  }
+
+  const files: Record<string, Buffer> = {};
+  for (const entry of Object.values(zip.files)) {
+    if (!entry.dir) {
+      files[entry.name] = await entry.async('nodebuffer');
+    }
+  }
+  const fileList = Object.entries(files).map(([name, content]) => ({ name, size: content.length }));
+
+  for (const required of ['pass.json', 'manifest.json', 'signature']) {
+    if (!files[required]) {
+      addArchive('error', `${required} is missing`);
+    }
+  }
+  const nested = Object.keys(files).filter(name => name.includes('/') && !/^[\w-]+\.lproj\/[^/]+$/.test(name));
+  if (nested.length > 0) {
+    addArchive('error', `Files must be at the top level or in .lproj folders: ${nested.join(', ')}`);
+  }
+  if (!checks.some(check => check.status === 'error')) {
+    addArchive('pass', `${fileList.length} files`);
+  }
+
+  // Manifest: SHA-1 of every file except the manifest and signature
+  const addManifest = adder('manifest');
+  if (files['manifest.json']) {
+    try {
+      const manifest: Record<string, string> = JSON.parse(files['manifest.json'].toString('utf8'));
+      let mismatches = 0;
+      for (const [name, content] of Object.entries(files)) {
+        if (name === 'manifest.json' || name === 'signature') continue;
+        const hash = crypto.createHash('sha1').update(content).digest('hex');
+        if (!manifest[name]) {
+          addManifest('error', `${name} is not listed in manifest.json`);
+          mismatches++;
+        } else if (manifest[name].toLowerCase() !== hash) {
+          addManifest('error', `${name} does not match its manifest hash (changed after signing?)`);
+          mismatches++;
+        }
+      }
+      for (const name of Object.keys(manifest)) {
+        if (!files[name]) {
+          addManifest('error', `manifest.json lists ${name}, which is not in the pass`);
+          mismatches++;
+        }
+      }
+      if (mismatches === 0) {
+        addManifest('pass', `All ${Object.keys(manifest).length} manifest hashes match`);
+      }
+    } catch (error: any) {
+      addManifest('error', `manifest.json is not valid JSON: ${error.message}`);
+    }
+  }
+
+  let passJson: any;
+  let style: string | undefined;
+  const addPassJson = adder('pass.json');
+  if (files['pass.json']) {
+    try {
+      passJson = JSON.parse(files['pass.json'].toString('utf8'));
+    } catch (error: any) {
+      addPassJson('error', `pass.json is not valid JSON: ${error.message}`);
+    }
+    if (passJson !== undefined && (typeof passJson !== 'object' || passJson === null || Array.isArray(passJson))) {
+      addPassJson('error', 'pass.json must be an object');
+      passJson = undefined;
+    }
+    if (passJson) {
+      style = checkPassJson(passJson, addPassJson);
+    }
+  }
+
+  const signature = files['signature'] && files['manifest.json']
+    ? checkSignature(files['manifest.json'], files['signature'], passJson, adder('signature'))
+    : undefined;
+
+  await checkImages(
+    Object.entries(files).map(([name, content]) => ({ name, content })),
+    style,
+    adder('images')
+  );
+
+  return report({
+    files: fileList,
+    signature,
+    pass: passJson ? {
+      passTypeIdentifier: passJson.passTypeIdentifier,
+      teamIdentifier: passJson.teamIdentifier,
+      serialNumber: passJson.serialNumber,
+      organizationName: passJson.organizationName,
+      description: passJson.description,
+      style,
+    } : undefined,
+  });
+}
@@ -0,0 +1,230 @@
+import { db } from '@db';
+import { customerPasses, customers, loyaltyCards, transactions, type CustomerPass } from '@db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { AuthTokenService } from './authTokenService';
+import { pushQueueService } from './pushQueueService';
+import { googleWalletService } from './googleWalletService';
+import { signingCredentialService } from './signingCredentialService';
+import { passVersionBump } from './passVersionService';
+
+export type PassStatus = 'active' | 'voided' | 'expired' | 'replaced';
+
+/**
+ * Where a pass is in its lifecycle
+ * Only 'active' passes can be scanned
+ */
+export function getPassStatus(pass: CustomerPass, now: Date = new Date()): PassStatus {
+  if (pass.replacedById) {
+    return 'replaced';
+  }
+  if (pass.isActive === false) {
+    return 'voided';
+  }
+  if (pass.expiresAt && pass.expiresAt <= now) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+/**
+ * Explain to staff why a pass can't be scanned
+ * Returns null for active passes
+ */
+export function getPassStatusMessage(pass: CustomerPass): string | null {
+  switch (getPassStatus(pass)) {
+    case 'replaced':
+      return 'This pass was replaced by a newer one. Ask the member to use their new pass.';
+    case 'voided':
+      return pass.voidReason ? `This pass has been voided: ${pass.voidReason}` : 'This pass has been voided';
+    case 'expired':
+      return `This pass expired on ${pass.expiresAt!.toDateString()}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Service for voiding, expiring, reactivating and reissuing customer passes
+ * Every change bumps the pass version and pushes to the member's devices so Wallet shows it
+ */
+class PassLifecycleService {
+  /**
+   * A customer's current pass for a card
+   * Reissuing leaves the old pass behind, so the newest one wins
+   */
+  async getCurrentPass(customerId: number, cardId: number): Promise<CustomerPass | undefined> {
+    return db.query.customerPasses.findFirst({
+      where: and(
+        eq(customerPasses.customerId, customerId),
+        eq(customerPasses.cardId, cardId)
+      ),
+      orderBy: [desc(customerPasses.createdAt)],
+    });
+  }
+
+  /**
+   * Every pass a customer can still use, one per card, with the card and business to build it
+   * Customers belong to one business, so these are all that business's programs
+   */
+  async getActivePasses(customerId: number) {
+    const passes = await db.query.customerPasses.findMany({
+      where: eq(customerPasses.customerId, customerId),
+      with: {
+        card: {
+          with: {
+            business: true
+          }
+        }
+      },
+      orderBy: [customerPasses.createdAt],
+    });
+    return passes.filter(pass => getPassStatus(pass) === 'active');
+  }
+
+  /**
+   * Void a pass (banned member, lost phone, cancelled membership)
+   *
+   * @param reason - Free text kept for staff, never shown on the pass
+   */
+  async voidPass(pass: CustomerPass, reason: string | null): Promise<CustomerPass> {
+    const [updated] = await db.update(customerPasses)
+      .set({
+        isActive: false,
+        voidedAt: new Date(),
+        voidReason: reason,
+        ...passVersionBump(),
+      })
+      .where(eq(customerPasses.id, pass.id))
+      .returning();
+
+    console.log(`✅ Voided pass: ${pass.serialNumber}`);
+    await this.notifyPassChanged(updated);
+    return updated;
+  }
+
+  /**
+   * Undo a void; reissued passes stay replaced
+   */
+  async reactivatePass(pass: CustomerPass): Promise<CustomerPass> {
+    const [updated] = await db.update(customerPasses)
+      .set({
+        isActive: true,
+        voidedAt: null,
+        voidReason: null,
+        ...passVersionBump(),
+      })
+      .where(eq(customerPasses.id, pass.id))
+      .returning();
+
+    console.log(`✅ Reactivated pass: ${pass.serialNumber}`);
+    await this.notifyPassChanged(updated);
+    return updated;
+  }
+
+  /**
+   * Set or clear the date a pass stops being valid (e.g. end of a membership term)
+   */
+  async setExpiration(pass: CustomerPass, expiresAt: Date | null): Promise<CustomerPass> {
+    const [updated] = await db.update(customerPasses)
+      .set({
+        expiresAt,
+        ...passVersionBump(),
+      })
+      .where(eq(customerPasses.id, pass.id))
+      .returning();
+
+    console.log(`✅ Set expiration for pass ${pass.serialNumber}: ${expiresAt?.toISOString() ?? 'none'}`);
+    await this.notifyPassChanged(updated);
+    return updated;
+  }
+
+  /**
+   * Issue a replacement pass under a new serial number and auth token
+   * The balance and transaction history move to the new pass; the old one is voided
+   * so a pass left on a lost phone can no longer be scanned.
+   * The replacement is issued under the business's current pass type, which is how
+   * members move over after the business uploads its own signing credentials
+   *
+   * @param baseUrl - Public URL of the app, for the replacement's Google Wallet class and save link
+   * @returns The replacement and its "Save to Google Wallet" link (null when Google Wallet is off)
+   */
+  async reissuePass(pass: CustomerPass, baseUrl: string): Promise<{ pass: CustomerPass; googleWalletUrl: string | null }> {
+    const serialNumber = `pass-${pass.cardId}-${pass.customerId}-${Date.now()}`;
+    const card = await db.query.loyaltyCards.findFirst({
+      where: eq(loyaltyCards.id, pass.cardId),
+      with: { business: true },
+    });
+    const passTypeIdentifier = await signingCredentialService.getBusinessPassTypeIdentifier(card?.businessId);
+
+    const replacement = await db.transaction(async (tx) => {
+      const [created] = await tx.insert(customerPasses).values({
+        customerId: pass.customerId,
+        cardId: pass.cardId,
+        serialNumber,
+        currentBalance: pass.currentBalance,
+        lifetimeBalance: pass.lifetimeBalance,
+        expiresAt: pass.expiresAt,
+        lastRewardAt: pass.lastRewardAt,
+        isActive: true,
+        passTypeIdentifier,
+      }).returning();
+
+      await tx.update(transactions)
+        .set({ customerPassId: created.id })
+        .where(eq(transactions.customerPassId, pass.id));
+
+      await tx.update(customerPasses)
+        .set({
+          isActive: false,
+          voidedAt: new Date(),
+          voidReason: pass.voidReason || 'Reissued',
+          replacedById: created.id,
+          ...passVersionBump(),
+        })
+        .where(eq(customerPasses.id, pass.id));
+
+      return created;
+    });
+
+    await AuthTokenService.getOrCreateToken(replacement.serialNumber);
+    console.log(`✅ Reissued pass ${pass.serialNumber} as ${replacement.serialNumber}`);
+
+    await this.notifyPassChanged({ ...pass, isActive: false, replacedById: replacement.id });
+
+    // The old Google object was just set inactive; the replacement needs its own
+    let googleWalletUrl: string | null = null;
+    try {
+      const customer = await db.query.customers.findFirst({
+        where: eq(customers.id, pass.customerId),
+      });
+      if (card?.business && customer) {
+        googleWalletUrl = await googleWalletService.createPassObject(card, card.business, customer, replacement, baseUrl);
+      }
+    } catch (error: any) {
+      console.error('⚠️ Failed to create Google Wallet object:', error.message);
+    }
+
+    return { pass: replacement, googleWalletUrl };
+  }
+
+  /**
+   * Tell Apple and Google Wallet about a lifecycle change
+   * Failures are logged only - the change itself is already saved
+   */
+  private async notifyPassChanged(pass: CustomerPass): Promise<void> {
+    try {
+      await pushQueueService.enqueue(pass.serialNumber);
+    } catch (error: any) {
+      console.error('⚠️ Failed to queue push notification:', error.message);
+    }
+
+    try {
+      await googleWalletService.updatePassStatus(pass);
+    } catch (error: any) {
+      console.error('⚠️ Failed to update Google Wallet object:', error.message);
+    }
+  }
+}
+
+// Export a singleton instance
+export const passLifecycleService = new PassLifecycleService();
@@ -0,0 +1,108 @@
+import type { LoyaltyCard, CardTranslation } from '@db/schema';
+import type { ResolvedPassFields } from './passFieldService';
+
+export const PASS_LANGUAGES = ['en', 'ar'] as const;
+export type PassLanguage = typeof PASS_LANGUAGES[number];
+
+// Built-in pass labels and messages, keyed by their English text
+const ARABIC_STRINGS: Record<string, string> = {
+  'STAMPS': 'الأختام',
+  'POINTS': 'النقاط',
+  'VISITS': 'الزيارات',
+  'MEMBER': 'العضو',
+  'BUSINESS': 'المتجر',
+  'MEMBER SINCE': 'عضو منذ',
+  'NEXT REWARD': 'المكافأة التالية',
+  'Reward': 'المكافأة',
+  'Member ID': 'رقم العضوية',
+  'Card ID': 'رقم البطاقة',
+  'Contact Phone': 'هاتف التواصل',
+  'Address': 'العنوان',
+  'Website': 'الموقع الإلكتروني',
+  'Locations': 'الفروع',
+  'Terms and Conditions': 'الشروط والأحكام',
+  'Latest Reward': 'آخر مكافأة',
+  'Reward available!': 'المكافأة متاحة!',
+  // Change messages; Wallet puts the new value in place of %@
+  'You now have %@ stamps': 'لديك الآن %@ من الأختام',
+  'You now have %@ points': 'لديك الآن %@ نقطة',
+  'Visits: %@': 'الزيارات: %@',
+  'Reward unlocked!': 'حصلت على مكافأة!',
+};
+
+/**
+ * Translate a built-in label or message; unknown text is returned unchanged
+ */
+export function localize(english: string, language: PassLanguage): string {
+  return language === 'ar' ? ARABIC_STRINGS[english] ?? english : english;
+}
+
+export function formatPointsAway(points: number, language: PassLanguage): string {
+  return language === 'ar' ? `باقي ${points} نقطة` : `${points} points away`;
+}
+
+export function formatDefaultTerms(businessName: string, loyaltyType: string, language: PassLanguage): string {
+  if (language === 'ar') {
+    return `أبرز هذه البطاقة في ${businessName} لجمع واستبدال ${loyaltyType === 'stamps' ? 'الأختام' : 'نقاط الولاء'}. صالحة في الفروع المشاركة.`;
+  }
+  return `Present this pass at ${businessName} to earn and redeem ${loyaltyType === 'stamps' ? 'stamps' : 'loyalty points'}. Valid at participating locations.`;
+}
+
+/**
+ * The business's own translation of the card text, if any
+ * English is the card's own text, so there is never an English translation
+ */
+export function getCardTranslation(card: LoyaltyCard, language: PassLanguage): CardTranslation | undefined {
+  if (language === 'en') {
+    return undefined;
+  }
+  return (card.design as any).translations?.[language];
+}
+
+export function containsRtl(text: string): boolean {
+  return /[\u0590-\u08FF]/.test(text);
+}
+
+/**
+ * Pair each English label/value with its translation, matching fields by key
+ * Text that reads the same in both languages (names, numbers) is left out
+ */
+export function pairFieldStrings(english: ResolvedPassFields, localized: ResolvedPassFields): Array<[string, string]> {
+  const pairs: Array<[string, string]> = [];
+  for (const section of Object.keys(english) as Array<keyof ResolvedPassFields>) {
+    for (const field of english[section]) {
+      const translated = localized[section].find(candidate => candidate.key === field.key);
+      if (!translated) continue;
+      if (field.label && translated.label && field.label !== translated.label) {
+        pairs.push([field.label, translated.label]);
+      }
+      if (field.value !== translated.value) {
+        pairs.push([field.value, translated.value]);
+      }
+      if (field.changeMessage && translated.changeMessage && field.changeMessage !== translated.changeMessage) {
+        pairs.push([field.changeMessage, translated.changeMessage]);
+      }
+    }
+  }
+  return pairs;
+}
+
+function escapeStringsValue(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Build a pass.strings file for an .lproj folder
+ * Wallet looks up each pass.json string as a key, so the English text is the key.
+ * Apple expects UTF-16 with a byte order mark.
+ */
+export function buildPassStrings(pairs: Array<[string, string]>): Buffer {
+  const seen = new Set<string>();
+  const lines: string[] = [];
+  for (const [key, value] of pairs) {
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    lines.push(`"${escapeStringsValue(key)}" = "${escapeStringsValue(value)}";`);
+  }
+  return Buffer.concat([Buffer.from([0xff, 0xfe]), Buffer.from(lines.join('\n') + '\n', 'utf16le')]);
+}
@@ -0,0 +1,211 @@
+import sharp from 'sharp';
+import bwipjs from 'bwip-js/node';
+import type { BarcodeFormat } from '@db/schema';
+import { buildPassLayout, type PassGenerationOptions } from './passService';
+import { getBarcodeFormat, getRotatingCodePeriod } from './barcodeService';
+import { containsRtl, type PassLanguage } from './passLocalization';
+import type { ResolvedPassField } from './passFieldService';
+
+export interface PassPreviewOptions {
+  // Pixels per point; 2 matches the @2x images in the pass
+  scale?: 1 | 2 | 3;
+  language?: PassLanguage;
+}
+
+// Pass front in points, sized to the 375pt strip image
+const WIDTH = 375;
+const PADDING = 16;
+const HEADER_HEIGHT = 64;
+const STRIP_HEIGHT = 123;
+const FONT_FAMILY = "Arial, 'Geeza Pro', 'Noto Sans Arabic', sans-serif";
+
+const BWIP_SYMBOLOGIES: Record<BarcodeFormat, string> = {
+  qr: 'qrcode',
+  pdf417: 'pdf417',
+  aztec: 'azteccode',
+  code128: 'code128',
+};
+
+// Barcode area inside the white panel, in points
+const BARCODE_SIZES: Record<BarcodeFormat, { width: number; height: number }> = {
+  qr: { width: 140, height: 140 },
+  aztec: { width: 140, height: 140 },
+  pdf417: { width: 260, height: 80 },
+  code128: { width: 260, height: 70 },
+};
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+}
+
+function dataUrl(png: Buffer): string {
+  return `data:image/png;base64,${png.toString('base64')}`;
+}
+
+/**
+ * Alignment attributes for a text element
+ * SVG anchors follow the text direction, so Arabic text anchored at its start sits on the right
+ */
+function alignText(text: string, align: 'left' | 'right'): string {
+  if (containsRtl(text)) {
+    return `text-anchor="${align === 'right' ? 'start' : 'end'}" direction="rtl" unicode-bidi="embed"`;
+  }
+  return `text-anchor="${align === 'left' ? 'start' : 'end'}"`;
+}
+
+/**
+ * A barcode as a standalone SVG document, in the card's symbology
+ * Also used by the web pass page, so staff scan it exactly like the Wallet pass
+ */
+export function renderBarcode(format: BarcodeFormat, message: string): string {
+  return bwipjs.toSVG({
+    bcid: BWIP_SYMBOLOGIES[format],
+    text: message,
+  });
+}
+
+/**
+ * Draw a barcode as inline SVG so it stays sharp at any scale
+ * 2D codes keep their aspect ratio; linear codes stretch to fill the width like Wallet's
+ */
+function renderBarcodeSvg(format: BarcodeFormat, message: string, x: number, y: number, width: number, height: number): string {
+  const svg = renderBarcode(format, message);
+  const aspect = format === 'code128' || format === 'pdf417' ? 'none' : 'xMidYMid meet';
+  return svg
+    .replace(/<\?xml[^>]*>/, '')
+    .replace(/<svg\b[^>]*?(viewBox="[^"]*")[^>]*>/, `<svg x="${x}" y="${y}" width="${width}" height="${height}" $1 preserveAspectRatio="${aspect}">`);
+}
+
+/**
+ * Shorten text that would overflow its column
+ * librsvg can't measure text up front, so this uses an average glyph width
+ */
+function fitText(text: string, maxWidth: number, fontSize: number): string {
+  const maxChars = Math.floor(maxWidth / (fontSize * 0.56));
+  return text.length > maxChars ? `${text.slice(0, Math.max(1, maxChars - 1)).trimEnd()}…` : text;
+}
+
+/**
+ * The value Wallet would display: dates are formatted in the device locale, as Wallet does
+ */
+function displayValue(field: ResolvedPassField, language: PassLanguage): string {
+  if (field.dateStyle) {
+    const date = new Date(field.value);
+    if (!isNaN(date.getTime())) {
+      return date.toLocaleDateString(language === 'ar' ? 'ar' : 'en-US', { dateStyle: 'medium' });
+    }
+  }
+  return field.value;
+}
+
+/**
+ * One row of fields, split evenly across the pass width
+ * Right-to-left passes fill the row from the right, as Wallet does on Arabic devices
+ */
+function renderFieldRow(
+  fields: ResolvedPassField[],
+  y: number,
+  valueSize: number,
+  colors: { label: string; value: string },
+  language: PassLanguage
+): string {
+  if (fields.length === 0) return '';
+
+  const rtl = language === 'ar';
+  const columnWidth = (WIDTH - PADDING * 2) / fields.length;
+  return fields.map((field, index) => {
+    const left = PADDING + columnWidth * index;
+    const x = rtl ? WIDTH - left : left;
+    const align = rtl ? 'right' : 'left';
+    const value = fitText(displayValue(field, language), columnWidth - 8, valueSize);
+    const label = field.label ? fitText(field.label.toUpperCase(), columnWidth - 8, 11) : '';
+    return `
+      <text x="${x}" y="${y + 11}" font-family="${FONT_FAMILY}" font-size="11" font-weight="600" fill="${colors.label}" ${alignText(label, align)}>${escapeXml(label)}</text>
+      <text x="${x}" y="${y + 15 + valueSize}" font-family="${FONT_FAMILY}" font-size="${valueSize}" fill="${colors.value}" ${alignText(value, align)}>${escapeXml(value)}</text>`;
+  }).join('');
+}
+
+/**
+ * Render the front of a pass as a PNG
+ * Uses the same layout, field values and images as the .pkpass, so emails, posters and the
+ * dashboard show what the member sees in Wallet. Nothing is signed and no auth token is issued.
+ */
+export async function renderPassPreview(
+  options: PassGenerationOptions,
+  { scale = 2, language = 'en' }: PassPreviewOptions = {}
+): Promise<Buffer> {
+  const { card, voided = false, expiresAt } = options;
+  const layout = await buildPassLayout(options);
+  const fields = language === 'ar' ? layout.arabicFields : layout.fields;
+  const colors = { label: layout.labelColor, value: layout.foregroundColor };
+  const parts: string[] = [];
+
+  // Header: logo, then the logo text beside it
+  const logo = layout.images['logo@3x.png'];
+  const logoInfo = await sharp(logo).metadata();
+  const logoWidth = (logoInfo.width || 150) / 3;
+  const logoHeight = (logoInfo.height || 150) / 3;
+  const rtl = language === 'ar';
+  const logoX = rtl ? WIDTH - PADDING - logoWidth : PADDING;
+  parts.push(`<image x="${logoX}" y="${(HEADER_HEIGHT - logoHeight) / 2}" width="${logoWidth}" height="${logoHeight}" xlink:href="${dataUrl(logo)}"/>`);
+  const logoText = fitText(layout.logoText, WIDTH - PADDING * 3 - logoWidth, 17);
+  parts.push(`<text x="${rtl ? logoX - 8 : logoX + logoWidth + 8}" y="${HEADER_HEIGHT / 2 + 6}" font-family="${FONT_FAMILY}" font-size="17" font-weight="600" fill="${layout.foregroundColor}" ${alignText(logoText, rtl ? 'right' : 'left')}>${escapeXml(logoText)}</text>`);
+
+  // Arabic name strips only exist for cards with a translated name
+  const strip = (language === 'ar' && layout.images['ar.lproj/strip@3x.png']) || layout.images['strip@3x.png'];
+  parts.push(`<image x="0" y="${HEADER_HEIGHT}" width="${WIDTH}" height="${STRIP_HEIGHT}" preserveAspectRatio="none" xlink:href="${dataUrl(strip)}"/>`);
+
+  let y = HEADER_HEIGHT + STRIP_HEIGHT + 12;
+  if (fields.primaryFields.length > 0) {
+    parts.push(renderFieldRow(fields.primaryFields, y, 28, colors, language));
+    y += 56;
+  }
+  for (const row of [fields.secondaryFields, fields.auxiliaryFields]) {
+    if (row.length > 0) {
+      parts.push(renderFieldRow(row, y, 15, colors, language));
+      y += 42;
+    }
+  }
+
+  // Barcode on a white panel, or why there is none
+  y += 8;
+  const barcode = layout.barcodes[0];
+  const isExpired = !!expiresAt && expiresAt.getTime() < Date.now();
+  const notice = voided
+    ? 'This pass is no longer valid'
+    : isExpired
+      ? 'This pass has expired'
+      // A rotating code in an image would stop scanning within a minute
+      : getRotatingCodePeriod(card)
+        ? 'Open the pass in Wallet to show the current code'
+        : null;
+
+  if (notice) {
+    parts.push(`<text x="${WIDTH / 2}" y="${y + 20}" font-family="${FONT_FAMILY}" font-size="13" fill="${layout.foregroundColor}" opacity="0.8" text-anchor="middle">${escapeXml(notice)}</text>`);
+    y += 40;
+  } else {
+    const format = getBarcodeFormat(card);
+    const size = BARCODE_SIZES[format];
+    const altText = barcode.altText ? fitText(barcode.altText, size.width, 12) : '';
+    const panelWidth = size.width + 24;
+    const panelHeight = size.height + 24 + (altText ? 18 : 0);
+    const panelX = (WIDTH - panelWidth) / 2;
+    parts.push(`<rect x="${panelX}" y="${y}" width="${panelWidth}" height="${panelHeight}" rx="8" fill="#ffffff"/>`);
+    parts.push(renderBarcodeSvg(format, barcode.message, panelX + 12, y + 12, size.width, size.height));
+    if (altText) {
+      parts.push(`<text x="${WIDTH / 2}" y="${y + 12 + size.height + 15}" font-family="${FONT_FAMILY}" font-size="12" fill="#000000" text-anchor="middle">${escapeXml(altText)}</text>`);
+    }
+    y += panelHeight + PADDING;
+  }
+
+  const height = Math.ceil(y);
+  const svg = `<svg width="${WIDTH * scale}" height="${height * scale}" viewBox="0 0 ${WIDTH} ${height}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+    <defs><clipPath id="pass"><rect width="${WIDTH}" height="${height}" rx="12"/></clipPath></defs>
+    <g clip-path="url(#pass)">
+      <rect width="${WIDTH}" height="${height}" fill="${layout.backgroundColor}"/>
+      ${parts.join('\n')}
+    </g>
+  </svg>`;
+
+  return sharp(Buffer.from(svg)).png().toBuffer();
+}
@@ -0,0 +1,149 @@
+import { db } from '@db';
+import { customerPasses, loyaltyCards, passRollouts, type PassRollout } from '@db/schema';
+import { eq, and, gt, lte, desc, count, max, sql } from 'drizzle-orm';
+import { pushQueueService } from './pushQueueService';
+import { isRegistered } from './walletInstallService';
+
+// Passes queued per batch, and the pause between batches, so a large card doesn't flood the push queue
+const ROLLOUT_BATCH_SIZE = 100;
+const ROLLOUT_BATCH_INTERVAL_MS = 2000;
+
+/**
+ * Service for pushing a card change to every pass installed in Wallet
+ * The passes are already marked as changed (see passVersionService); a rollout only tells the
+ * devices, a batch at a time, and can be cancelled
+ */
+class PassRolloutService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private processing = false;
+
+  /**
+   * Start pushing the card's installed passes, replacing a rollout still running for the card
+   *
+   * @returns The new rollout, or null when no pass of the card is installed
+   */
+  async createRollout(cardId: number): Promise<PassRollout | null> {
+    await db.update(passRollouts)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(eq(passRollouts.cardId, cardId), eq(passRollouts.status, 'running')));
+
+    const [installed] = await db
+      .select({ total: count(), maxPassId: max(customerPasses.id) })
+      .from(customerPasses)
+      .where(and(eq(customerPasses.cardId, cardId), isRegistered));
+
+    if (installed.total === 0 || installed.maxPassId === null) {
+      return null;
+    }
+
+    const [rollout] = await db.insert(passRollouts)
+      .values({ cardId, total: installed.total, maxPassId: installed.maxPassId })
+      .returning();
+    console.log(`📤 Started rollout ${rollout.id} to ${rollout.total} installed pass(es) of card ${cardId}`);
+    return rollout;
+  }
+
+  /**
+   * The card's latest rollout, if it belongs to the business
+   */
+  async getLatestRollout(cardId: number, businessId: number): Promise<PassRollout | null> {
+    const [rollout] = await db
+      .select({ rollout: passRollouts })
+      .from(passRollouts)
+      .innerJoin(loyaltyCards, eq(passRollouts.cardId, loyaltyCards.id))
+      .where(and(eq(passRollouts.cardId, cardId), eq(loyaltyCards.businessId, businessId)))
+      .orderBy(desc(passRollouts.id))
+      .limit(1);
+    return rollout?.rollout ?? null;
+  }
+
+  /**
+   * Stop the card's running rollout; pushes already queued are still sent
+   *
+   * @returns The cancelled rollout, or null when none was running
+   */
+  async cancelRollout(cardId: number, businessId: number): Promise<PassRollout | null> {
+    const rollout = await this.getLatestRollout(cardId, businessId);
+    if (!rollout || rollout.status !== 'running') {
+      return null;
+    }
+    const [cancelled] = await db.update(passRollouts)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(eq(passRollouts.id, rollout.id), eq(passRollouts.status, 'running')))
+      .returning();
+    return cancelled ?? null;
+  }
+
+  /**
+   * Start the background worker; rollouts interrupted by a restart carry on where they stopped
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.processBatches(), ROLLOUT_BATCH_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Queue the next batch of every running rollout
+   */
+  async processBatches(): Promise<void> {
+    if (this.processing) {
+      return;
+    }
+    this.processing = true;
+    try {
+      const running = await db.query.passRollouts.findMany({
+        where: eq(passRollouts.status, 'running'),
+      });
+      for (const rollout of running) {
+        await this.processBatch(rollout);
+      }
+    } catch (error: any) {
+      console.error('❌ Pass rollout worker error:', error.message);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async processBatch(rollout: PassRollout): Promise<void> {
+    const passes = await db
+      .select({ id: customerPasses.id, serialNumber: customerPasses.serialNumber })
+      .from(customerPasses)
+      .where(and(
+        eq(customerPasses.cardId, rollout.cardId),
+        gt(customerPasses.id, rollout.lastPassId),
+        lte(customerPasses.id, rollout.maxPassId),
+        isRegistered
+      ))
+      .orderBy(customerPasses.id)
+      .limit(ROLLOUT_BATCH_SIZE);
+
+    await pushQueueService.enqueueMany(passes.map(pass => pass.serialNumber));
+
+    const done = passes.length < ROLLOUT_BATCH_SIZE;
+    // Passes removed from Wallet since the start are skipped, so a finished rollout counts what it pushed
+    await db.update(passRollouts)
+      .set({
+        processed: sql`${passRollouts.processed} + ${passes.length}`,
+        lastPassId: passes.length > 0 ? passes[passes.length - 1].id : rollout.lastPassId,
+        ...(done ? { status: 'completed', completedAt: new Date() } : {}),
+      })
+      // A rollout cancelled during the batch stays cancelled
+      .where(and(eq(passRollouts.id, rollout.id), eq(passRollouts.status, 'running')));
+
+    if (done) {
+      console.log(`✅ Rollout ${rollout.id} queued pushes for ${rollout.processed + passes.length} pass(es) of card ${rollout.cardId}`);
+    }
+  }
+}
+
+// Export a singleton instance
+export const passRolloutService = new PassRolloutService();
@@ -0,0 +1,258 @@
+import forge from 'node-forge';
+
+export type PassSigningErrorCode =
+  | 'NOT_CONFIGURED'
+  | 'INVALID_CERTIFICATE'
+  | 'INVALID_KEY'
+  | 'KEY_MISMATCH'
+  | 'CERTIFICATE_EXPIRED'
+  | 'MISSING_WWDR'
+  | 'INVALID_WWDR'
+  | 'WWDR_MISMATCH'
+  | 'PASS_TYPE_MISMATCH'
+  | 'SIGNING_FAILED';
+
+/**
+ * A reason a pass can't be signed
+ * Thrown instead of producing a signature Wallet would reject
+ */
+export class PassSigningError extends Error {
+  constructor(public readonly code: PassSigningErrorCode, message: string) {
+    super(message);
+    this.name = 'PassSigningError';
+  }
+
+  toJSON() {
+    return { code: this.code, message: this.message };
+  }
+}
+
+export interface SigningCredentials {
+  signingCert?: string;
+  signingKey?: string;
+  wwdrCert?: string;
+}
+
+/**
+ * Parsed certificates and key, ready to sign manifests
+ */
+export interface SigningIdentity {
+  signingCert: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+  wwdrCert: forge.pki.Certificate;
+  // From the certificate subject (UID and OU); pass.json must use the same values
+  passTypeIdentifier: string | null;
+  teamIdentifier: string | null;
+}
+
+// The UID attribute of a Pass Type ID certificate's subject holds the pass type identifier
+const USER_ID_OID = '0.9.2342.19200300.100.1.1';
+
+// node-forge only accepts PEM with the standard 64-character line wrapping
+function formatPemForForge(data: string, type: 'CERTIFICATE' | 'PRIVATE KEY'): string {
+  const clean = data.replace(/\s+/g, '').replace(/-----[^-]*-----/g, '');
+  const lines = clean.match(/.{1,64}/g) || [];
+  return `-----BEGIN ${type}-----\n${lines.join('\n')}\n-----END ${type}-----`;
+}
+
+export function credentialsFromEnv(): SigningCredentials {
+  return {
+    signingCert: process.env.APPLE_SIGNING_CERT,
+    signingKey: process.env.APPLE_SIGNING_KEY,
+    wwdrCert: process.env.APPLE_WWDR_CERT,
+  };
+}
+
+/**
+ * Errors for certificates that are expired or not yet valid
+ * Checked on every signature, since a certificate can expire while the server is running
+ */
+export function checkCertificateDates(identity: SigningIdentity, now: Date = new Date()): PassSigningError[] {
+  const errors: PassSigningError[] = [];
+  const certificates: Array<[string, forge.pki.Certificate]> = [
+    ['Pass signing certificate', identity.signingCert],
+    ['WWDR certificate', identity.wwdrCert],
+  ];
+  for (const [name, cert] of certificates) {
+    if (now < cert.validity.notBefore) {
+      errors.push(new PassSigningError('CERTIFICATE_EXPIRED', `${name} is not valid until ${cert.validity.notBefore.toDateString()}`));
+    } else if (now > cert.validity.notAfter) {
+      errors.push(new PassSigningError('CERTIFICATE_EXPIRED', `${name} expired on ${cert.validity.notAfter.toDateString()}`));
+    }
+  }
+  return errors;
+}
+
+/**
+ * Parse and cross-check the signing certificate, private key and WWDR certificate
+ * Collects every problem found instead of stopping at the first, so they can all be fixed at once.
+ * The identity is only returned when the credentials can sign a pass Wallet will accept.
+ */
+export function checkSigningCredentials(
+  credentials: SigningCredentials,
+  now: Date = new Date()
+): { identity?: SigningIdentity; errors: PassSigningError[] } {
+  const errors: PassSigningError[] = [];
+
+  if (!credentials.signingCert || !credentials.signingKey) {
+    errors.push(new PassSigningError('NOT_CONFIGURED', 'Pass signing certificate and private key are not configured (APPLE_SIGNING_CERT, APPLE_SIGNING_KEY)'));
+    return { errors };
+  }
+
+  let signingCert: forge.pki.Certificate | undefined;
+  try {
+    signingCert = forge.pki.certificateFromPem(formatPemForForge(credentials.signingCert, 'CERTIFICATE'));
+  } catch (error: any) {
+    errors.push(new PassSigningError('INVALID_CERTIFICATE', `Pass signing certificate could not be read: ${error.message}`));
+  }
+
+  let privateKey: forge.pki.rsa.PrivateKey | undefined;
+  try {
+    privateKey = forge.pki.privateKeyFromPem(formatPemForForge(credentials.signingKey, 'PRIVATE KEY'));
+  } catch (error: any) {
+    errors.push(new PassSigningError('INVALID_KEY', `Private key could not be read (it must be an unencrypted RSA key): ${error.message}`));
+  }
+
+  if (signingCert && privateKey) {
+    const publicKey = signingCert.publicKey as forge.pki.rsa.PublicKey;
+    if (!publicKey.n || publicKey.n.compareTo(privateKey.n) !== 0) {
+      errors.push(new PassSigningError('KEY_MISMATCH', 'Private key does not belong to the pass signing certificate'));
+    }
+  }
+
+  let wwdrCert: forge.pki.Certificate | undefined;
+  if (!credentials.wwdrCert) {
+    errors.push(new PassSigningError('MISSING_WWDR', 'Apple WWDR certificate is not configured (APPLE_WWDR_CERT); Wallet rejects passes signed without it'));
+  } else {
+    try {
+      wwdrCert = forge.pki.certificateFromPem(formatPemForForge(credentials.wwdrCert, 'CERTIFICATE'));
+    } catch (error: any) {
+      errors.push(new PassSigningError('INVALID_WWDR', `WWDR certificate could not be read: ${error.message}`));
+    }
+  }
+
+  if (signingCert && wwdrCert && !wwdrCert.issued(signingCert)) {
+    const issuer = signingCert.issuer.getField('OU')?.value || signingCert.issuer.getField('CN')?.value;
+    errors.push(new PassSigningError('WWDR_MISMATCH', `Pass signing certificate was not issued by this WWDR certificate (issuer: ${issuer})`));
+  }
+
+  if (!signingCert || !privateKey || !wwdrCert) {
+    return { errors };
+  }
+
+  const identity: SigningIdentity = {
+    signingCert,
+    privateKey,
+    wwdrCert,
+    passTypeIdentifier: signingCert.subject.getField({ type: USER_ID_OID })?.value ?? null,
+    teamIdentifier: signingCert.subject.getField('OU')?.value ?? null,
+  };
+  errors.push(...checkCertificateDates(identity, now));
+
+  return errors.length === 0 ? { identity, errors } : { errors };
+}
+
+/**
+ * Create the detached PKCS#7 signature (SHA-256, with the WWDR chain) for a manifest.json
+ */
+export function signManifest(identity: SigningIdentity, manifest: Buffer): Buffer {
+  try {
+    const p7 = forge.pkcs7.createSignedData();
+    p7.content = forge.util.createBuffer(manifest.toString('binary'));
+
+    p7.addSigner({
+      key: identity.privateKey,
+      certificate: identity.signingCert,
+      digestAlgorithm: forge.pki.oids.sha256,
+      authenticatedAttributes: [
+        {
+          type: forge.pki.oids.contentType,
+          value: forge.pki.oids.data
+        },
+        {
+          type: forge.pki.oids.messageDigest
+          // value is automatically computed by node-forge during signing
+        },
+        {
+          type: forge.pki.oids.signingTime,
+          value: new Date() as any
+        }
+      ]
+    });
+
+    p7.addCertificate(identity.signingCert);
+    p7.addCertificate(identity.wwdrCert);
+
+    p7.sign({ detached: true });
+    return Buffer.from(forge.asn1.toDer(p7.toAsn1()).getBytes(), 'binary');
+  } catch (error: any) {
+    throw new PassSigningError('SIGNING_FAILED', `Failed to create pass signature: ${error.message}`);
+  }
+}
+
+/**
+ * Signs pass manifests with the Pass Type ID certificate
+ * The certificate, key and WWDR certificate are parsed and checked once at startup.
+ * If they can't produce a valid pass, every sign() call throws the reason instead.
+ */
+class PassSigner {
+  private identity: SigningIdentity | null = null;
+  private errors: PassSigningError[] = [];
+
+  constructor() {
+    this.initialize();
+  }
+
+  private initialize() {
+    const { identity, errors } = checkSigningCredentials(credentialsFromEnv());
+    this.identity = identity ?? null;
+    this.errors = errors;
+
+    if (identity) {
+      console.log(`✅ Pass signing certificate loaded (${identity.passTypeIdentifier})`);
+    } else if (errors[0]?.code === 'NOT_CONFIGURED') {
+      console.warn('⚠️ Apple signing certificate not configured. Passes cannot be signed.');
+    } else {
+      errors.forEach(error => console.error(`❌ Pass signing disabled [${error.code}]: ${error.message}`));
+    }
+  }
+
+  /**
+   * Problems that currently stop passes from being signed; empty when signing works
+   */
+  getErrors(): PassSigningError[] {
+    return this.identity ? checkCertificateDates(this.identity) : this.errors;
+  }
+
+  /**
+   * Create the detached signature for a pass manifest.json
+   *
+   * @param pass - Identifiers written to pass.json; they must match the certificate
+   * @param businessIdentity - A business's own credentials (see signingCredentialService);
+   *   the platform certificate is used when omitted
+   * @throws PassSigningError
+   */
+  sign(
+    manifest: Buffer,
+    pass: { passTypeIdentifier: string; teamIdentifier: string },
+    businessIdentity?: SigningIdentity
+  ): Buffer {
+    const [error] = businessIdentity ? checkCertificateDates(businessIdentity) : this.getErrors();
+    if (error) {
+      throw error;
+    }
+
+    const identity = businessIdentity ?? this.identity!;
+    if (identity.passTypeIdentifier && identity.passTypeIdentifier !== pass.passTypeIdentifier) {
+      throw new PassSigningError('PASS_TYPE_MISMATCH', `Pass type ${pass.passTypeIdentifier} does not match the signing certificate (${identity.passTypeIdentifier})`);
+    }
+    if (identity.teamIdentifier && identity.teamIdentifier !== pass.teamIdentifier) {
+      throw new PassSigningError('PASS_TYPE_MISMATCH', `Team ID ${pass.teamIdentifier} does not match the signing certificate (${identity.teamIdentifier})`);
+    }
+
+    return signManifest(identity, manifest);
+  }
+}
+
+// Export a singleton instance
+export const passSigner = new PassSigner();
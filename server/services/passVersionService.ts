@@ -0,0 +1,40 @@
+import { db } from '@db';
+import { customerPasses, loyaltyCards } from '@db/schema';
+import { eq, inArray, sql } from 'drizzle-orm';
+
+/**
+ * Columns that mark a pass as changed, for any update that changes what the pass shows
+ * Wallet only fetches passes whose update tag is newer than the one it last saw, and the pass
+ * endpoint's Last-Modified comes from lastUpdated, so both always move together.
+ */
+export function passVersionBump() {
+  return {
+    updateTag: sql`nextval('pass_update_tag_seq')`,
+    lastUpdated: new Date(),
+  };
+}
+
+/**
+ * Mark every pass of a card as changed (design, name or reward changes)
+ */
+export async function bumpCardPassVersions(cardId: number): Promise<number> {
+  const updated = await db.update(customerPasses)
+    .set(passVersionBump())
+    .where(eq(customerPasses.cardId, cardId))
+    .returning({ id: customerPasses.id });
+  return updated.length;
+}
+
+/**
+ * Mark every pass of a business as changed (logo, contact details, branches)
+ */
+export async function bumpBusinessPassVersions(businessId: number): Promise<number> {
+  const updated = await db.update(customerPasses)
+    .set(passVersionBump())
+    .where(inArray(
+      customerPasses.cardId,
+      db.select({ id: loyaltyCards.id }).from(loyaltyCards).where(eq(loyaltyCards.businessId, businessId))
+    ))
+    .returning({ id: customerPasses.id });
+  return updated.length;
+}
@@ -0,0 +1,152 @@
+import { db } from '@db';
+import { customerPasses, customers, loyaltyCards, pushNotificationLog, pushQueue } from '@db/schema';
+import { eq, and, gte, ne, desc, count, max, sql } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Failed attempts, with no success since, before a pass is listed as persistently failing
+const PERSISTENT_FAILURE_THRESHOLD = 3;
+const MAX_REASONS = 20;
+const MAX_FAILING_PASSES = 50;
+
+export interface PushDeliveryDay {
+  date: string;
+  sent: number;
+  failed: number;
+  invalidToken: number;
+}
+
+export interface PushDeliveryStats {
+  sent: number;
+  failed: number;
+  invalidToken: number;
+  // Share of attempts that reached APNs; null when nothing was sent
+  successRate: number | null;
+  timeline: PushDeliveryDay[];
+  reasons: Array<{ reason: string; count: number; lastSeen: Date | null }>;
+  // Pushes waiting to be sent, and pushes given up on
+  queue: { pending: number; failed: number };
+}
+
+export interface FailingPass {
+  serialNumber: string;
+  customerName: string;
+  cardName: string;
+  failures: number;
+  lastError: string | null;
+  lastFailureAt: Date | null;
+  lastSuccessAt: Date | null;
+}
+
+/**
+ * Service for reading push delivery results, from push_notification_log and the push queue
+ * Log rows carry no business, so they are matched to the business through the pass's card
+ */
+class PushMonitorService {
+  async getStats(businessId: number, days: number): Promise<PushDeliveryStats> {
+    const since = new Date(Date.now() - (days - 1) * DAY_MS);
+    since.setUTCHours(0, 0, 0, 0);
+    const inBusiness = and(eq(loyaltyCards.businessId, businessId), gte(pushNotificationLog.sentAt, since));
+
+    const day = sql<string>`date_trunc('day', ${pushNotificationLog.sentAt})::date::text`;
+    const daily = await db
+      .select({ date: day, status: pushNotificationLog.status, count: count() })
+      .from(pushNotificationLog)
+      .innerJoin(customerPasses, eq(pushNotificationLog.serialNumber, customerPasses.serialNumber))
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(inBusiness)
+      .groupBy(day, pushNotificationLog.status);
+
+    const reasons = await db
+      .select({
+        reason: sql<string>`coalesce(${pushNotificationLog.errorMessage}, 'Unknown error')`,
+        count: count(),
+        lastSeen: max(pushNotificationLog.sentAt),
+      })
+      .from(pushNotificationLog)
+      .innerJoin(customerPasses, eq(pushNotificationLog.serialNumber, customerPasses.serialNumber))
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(and(inBusiness, ne(pushNotificationLog.status, 'sent')))
+      .groupBy(sql`coalesce(${pushNotificationLog.errorMessage}, 'Unknown error')`)
+      .orderBy(desc(count()))
+      .limit(MAX_REASONS);
+
+    const queued = await db
+      .select({ status: pushQueue.status, count: count() })
+      .from(pushQueue)
+      .innerJoin(customerPasses, eq(pushQueue.serialNumber, customerPasses.serialNumber))
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(eq(loyaltyCards.businessId, businessId))
+      .groupBy(pushQueue.status);
+
+    const countFor = (date: string, status: string) =>
+      daily.find(row => row.date === date && row.status === status)?.count ?? 0;
+    const timeline: PushDeliveryDay[] = [];
+    for (let i = 0; i < days; i++) {
+      const date = new Date(since.getTime() + i * DAY_MS).toISOString().slice(0, 10);
+      timeline.push({
+        date,
+        sent: countFor(date, 'sent'),
+        failed: countFor(date, 'failed'),
+        invalidToken: countFor(date, 'invalid_token'),
+      });
+    }
+
+    const total = (status: string) => daily.filter(row => row.status === status).reduce((sum, row) => sum + row.count, 0);
+    const sent = total('sent');
+    const failed = total('failed');
+    const invalidToken = total('invalid_token');
+    const attempts = sent + failed + invalidToken;
+
+    return {
+      sent,
+      failed,
+      invalidToken,
+      successRate: attempts > 0 ? sent / attempts : null,
+      timeline,
+      reasons,
+      queue: {
+        // Pushes being sent right now are still waiting as far as the business is concerned
+        pending: queued.filter(row => row.status !== 'failed').reduce((sum, row) => sum + row.count, 0),
+        failed: queued.find(row => row.status === 'failed')?.count ?? 0,
+      },
+    };
+  }
+
+  /**
+   * Passes whose pushes keep failing: several failures and no successful push since
+   */
+  async getFailingPasses(businessId: number, days: number): Promise<FailingPass[]> {
+    const since = new Date(Date.now() - days * DAY_MS);
+    const isFailure = sql`${pushNotificationLog.status} <> 'sent'`;
+    const lastFailureAt = sql<Date | null>`max(${pushNotificationLog.sentAt}) filter (where ${isFailure})`;
+    const lastSuccessAt = sql<Date | null>`max(${pushNotificationLog.sentAt}) filter (where ${pushNotificationLog.status} = 'sent')`;
+    const failures = sql<number>`count(*) filter (where ${isFailure})`;
+
+    const rows = await db
+      .select({
+        serialNumber: pushNotificationLog.serialNumber,
+        customerName: customers.name,
+        cardName: loyaltyCards.name,
+        failures: failures.mapWith(Number),
+        lastError: sql<string | null>`(array_agg(${pushNotificationLog.errorMessage} order by ${pushNotificationLog.sentAt} desc) filter (where ${isFailure}))[1]`,
+        lastFailureAt: lastFailureAt.mapWith(pushNotificationLog.sentAt),
+        lastSuccessAt: lastSuccessAt.mapWith(pushNotificationLog.sentAt),
+      })
+      .from(pushNotificationLog)
+      .innerJoin(customerPasses, eq(pushNotificationLog.serialNumber, customerPasses.serialNumber))
+      .innerJoin(customers, eq(customerPasses.customerId, customers.id))
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(and(eq(loyaltyCards.businessId, businessId), gte(pushNotificationLog.sentAt, since)))
+      .groupBy(pushNotificationLog.serialNumber, customers.name, loyaltyCards.name)
+      .having(and(
+        sql`${failures} >= ${PERSISTENT_FAILURE_THRESHOLD}`,
+        sql`(${lastSuccessAt} is null or ${lastSuccessAt} < ${lastFailureAt})`
+      ))
+      .orderBy(desc(lastFailureAt))
+      .limit(MAX_FAILING_PASSES);
+    return rows;
+  }
+}
+
+// Export a singleton instance
+export const pushMonitorService = new PushMonitorService();
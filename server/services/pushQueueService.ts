@@ -0,0 +1,280 @@
+import { db } from '@db';
+import { deviceRegistrations, pushNotificationLog, pushQueue, type PushQueueEntry } from '@db/schema';
+import { eq, and, or, inArray, lt, lte, sql } from 'drizzle-orm';
+import { apnsService, type PushResult } from './apnsService';
+import { walletInstallService } from './walletInstallService';
+
+// Updates to a pass within this window go out as one push
+const COALESCE_WINDOW_MS = 2000;
+// How often the worker looks for due pushes when nothing wakes it sooner
+const POLL_INTERVAL_MS = 5000;
+const BATCH_SIZE = 50;
+// A push still 'sending' this long after being claimed is assumed lost (e.g. a restart) and sent again
+const SEND_TIMEOUT_MS = 2 * 60 * 1000;
+// Backoff for transient failures: 30s, 1m, 2m... capped at an hour, then the push is given up
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+// Pushes given up on stay visible on the Push Delivery page this long, then are deleted
+const FAILED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * Math.pow(2, attempts - 1), RETRY_MAX_MS);
+}
+
+/**
+ * Database-backed queue of Wallet update pushes
+ * Callers enqueue a pass and return straight away; a background worker sends the pushes,
+ * retrying rate limits and APNs errors with backoff and dropping devices whose token is gone
+ */
+class PushQueueService {
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private wakeTimer: ReturnType<typeof setTimeout> | null = null;
+  private draining = false;
+  private lastPrunedAt = 0;
+
+  /**
+   * Queue a push to every device that has the pass
+   * A device with a push already waiting for this pass gets no second one
+   *
+   * @returns The number of devices the pass is registered on
+   */
+  async enqueue(serialNumber: string): Promise<number> {
+    const queued = await this.enqueueMany([serialNumber]);
+    if (queued === 0) {
+      console.log(`ℹ️ No devices to push for serial number: ${serialNumber}`);
+    } else {
+      console.log(`📤 Queued push to ${queued} device(s) for pass: ${serialNumber}`);
+    }
+    return queued;
+  }
+
+  /**
+   * Queue pushes for several passes at once (e.g. a card rollout batch)
+   *
+   * @returns The number of devices queued
+   */
+  async enqueueMany(serialNumbers: string[]): Promise<number> {
+    if (serialNumbers.length === 0) {
+      return 0;
+    }
+    const registered = await db.query.deviceRegistrations.findMany({
+      where: inArray(deviceRegistrations.serialNumber, serialNumbers),
+    });
+
+    // Without APNs credentials for a pass type every push would fail, so none are queued
+    const passTypes = Array.from(new Set(registered.map(device => device.passTypeIdentifier)));
+    const sendable = new Set<string>();
+    for (const passType of passTypes) {
+      if (await apnsService.canSendTo(passType)) {
+        sendable.add(passType);
+      } else {
+        console.warn(`⚠️ APNs is not configured for ${passType}; skipping pushes`);
+      }
+    }
+    const devices = registered.filter(device => sendable.has(device.passTypeIdentifier));
+    if (devices.length === 0) {
+      return 0;
+    }
+
+    const sendAfter = new Date(Date.now() + COALESCE_WINDOW_MS);
+    await db.insert(pushQueue)
+      .values(devices.map(device => ({
+        serialNumber: device.serialNumber,
+        deviceLibraryIdentifier: device.deviceLibraryIdentifier,
+        passTypeIdentifier: device.passTypeIdentifier,
+        pushToken: device.pushToken,
+        sendAfter,
+      })))
+      .onConflictDoUpdate({
+        target: [pushQueue.serialNumber, pushQueue.deviceLibraryIdentifier],
+        targetWhere: sql`${pushQueue.status} = 'pending'`,
+        set: {
+          pushToken: sql`excluded.push_token`,
+          updates: sql`${pushQueue.updates} + 1`,
+        },
+      });
+
+    this.wake(COALESCE_WINDOW_MS);
+    return devices.length;
+  }
+
+  /**
+   * Try a pass's pushes again from the start, dropping the ones given up on
+   *
+   * @returns The number of devices queued; 0 when no device has the pass anymore
+   */
+  async resend(serialNumber: string): Promise<number> {
+    await db.delete(pushQueue)
+      .where(and(eq(pushQueue.serialNumber, serialNumber), eq(pushQueue.status, 'failed')));
+    return this.enqueue(serialNumber);
+  }
+
+  /**
+   * Start the background worker; pushes left from before a restart are picked up
+   */
+  start(): void {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => this.drain(), POLL_INTERVAL_MS);
+    this.wake(0);
+    console.log('✅ Push queue worker started');
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = null;
+    }
+  }
+
+  /**
+   * Send every push that is due, a batch at a time
+   */
+  async drain(): Promise<void> {
+    if (this.draining) {
+      return;
+    }
+    this.draining = true;
+    try {
+      let claimed: PushQueueEntry[];
+      do {
+        claimed = await this.claimBatch();
+        for (const entry of claimed) {
+          await this.send(entry);
+        }
+      } while (claimed.length === BATCH_SIZE);
+
+      if (Date.now() - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+        this.lastPrunedAt = Date.now();
+        await this.prune();
+      }
+    } catch (error: any) {
+      console.error('❌ Push queue worker error:', error.message);
+    } finally {
+      this.draining = false;
+    }
+  }
+
+  /**
+   * Delete pushes given up on more than FAILED_RETENTION_MS ago
+   * Sent pushes are deleted straight away; push_notification_log keeps the history
+   */
+  async prune(): Promise<void> {
+    const cutoff = new Date(Date.now() - FAILED_RETENTION_MS);
+    const removed = await db.delete(pushQueue)
+      .where(and(eq(pushQueue.status, 'failed'), lt(pushQueue.createdAt, cutoff)))
+      .returning({ id: pushQueue.id });
+    if (removed.length > 0) {
+      console.log(`🧹 Removed ${removed.length} failed push(es) older than ${FAILED_RETENTION_MS / (24 * 60 * 60 * 1000)} days`);
+    }
+  }
+
+  // Run the worker once the coalescing window closes, instead of waiting for the next poll
+  private wake(delayMs: number): void {
+    if (!this.pollTimer || this.wakeTimer) {
+      return;
+    }
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = null;
+      this.drain();
+    }, delayMs);
+  }
+
+  /**
+   * Mark due pushes as sending, so no other worker picks them up
+   */
+  private async claimBatch(): Promise<PushQueueEntry[]> {
+    const now = new Date();
+    const due = db.select({ id: pushQueue.id })
+      .from(pushQueue)
+      .where(and(
+        or(eq(pushQueue.status, 'pending'), eq(pushQueue.status, 'sending')),
+        lte(pushQueue.sendAfter, now)
+      ))
+      .orderBy(pushQueue.sendAfter)
+      .limit(BATCH_SIZE)
+      .for('update', { skipLocked: true });
+
+    return db.update(pushQueue)
+      .set({
+        status: 'sending',
+        attempts: sql`${pushQueue.attempts} + 1`,
+        sendAfter: new Date(now.getTime() + SEND_TIMEOUT_MS),
+      })
+      .where(inArray(pushQueue.id, due))
+      .returning();
+  }
+
+  private async send(entry: PushQueueEntry): Promise<void> {
+    const result = await apnsService.sendToDevice(entry.passTypeIdentifier, entry.pushToken);
+
+    await db.insert(pushNotificationLog).values({
+      serialNumber: entry.serialNumber,
+      pushToken: entry.pushToken,
+      status: result.sent ? 'sent' : result.kind === 'invalidToken' ? 'invalid_token' : 'failed',
+      errorMessage: result.sent ? null : result.reason,
+    });
+
+    if (result.sent) {
+      await db.delete(pushQueue).where(eq(pushQueue.id, entry.id));
+      console.log(`✅ Push notification sent to device ${entry.deviceLibraryIdentifier} for pass: ${entry.serialNumber}`);
+      return;
+    }
+
+    console.error(`❌ Push failed for device ${entry.deviceLibraryIdentifier} (attempt ${entry.attempts}): ${result.reason}`);
+
+    if (result.kind === 'invalidToken') {
+      console.log(`🧹 Removing invalid device registration for pass: ${entry.serialNumber}`);
+      const removed = await db.delete(deviceRegistrations)
+        .where(and(
+          eq(deviceRegistrations.deviceLibraryIdentifier, entry.deviceLibraryIdentifier),
+          eq(deviceRegistrations.serialNumber, entry.serialNumber),
+          eq(deviceRegistrations.pushToken, entry.pushToken)
+        ))
+        .returning({ id: deviceRegistrations.id });
+      if (removed.length > 0) {
+        await walletInstallService.recordUninstall(entry.serialNumber, entry.deviceLibraryIdentifier);
+      }
+    }
+
+    if (result.kind === 'transient' && entry.attempts < MAX_ATTEMPTS) {
+      await this.scheduleRetry(entry, result);
+    } else {
+      await db.update(pushQueue)
+        .set({ status: 'failed', lastError: result.reason })
+        .where(eq(pushQueue.id, entry.id));
+    }
+  }
+
+  /**
+   * Put a push back in the queue after a backoff
+   * If the pass changed again meanwhile, the newer pending push already covers this device
+   */
+  private async scheduleRetry(entry: PushQueueEntry, result: Extract<PushResult, { sent: false }>): Promise<void> {
+    const requeued = await db.update(pushQueue)
+      .set({
+        status: 'pending',
+        sendAfter: new Date(Date.now() + getRetryDelay(entry.attempts)),
+        lastError: result.reason,
+      })
+      .where(and(
+        eq(pushQueue.id, entry.id),
+        sql`not exists (select 1 from ${pushQueue} pending where pending.status = 'pending' and pending.serial_number = ${entry.serialNumber} and pending.device_library_identifier = ${entry.deviceLibraryIdentifier})`
+      ))
+      .returning({ id: pushQueue.id });
+
+    if (requeued.length === 0) {
+      await db.delete(pushQueue).where(eq(pushQueue.id, entry.id));
+    }
+  }
+}
+
+// Export a singleton instance
+export const pushQueueService = new PushQueueService();
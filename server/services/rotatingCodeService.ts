@@ -0,0 +1,99 @@
+import { db } from '@db';
+import { customerPasses, loyaltyCards } from '@db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { getRotatingCodePeriod } from './barcodeService';
+import { passVersionBump } from './passVersionService';
+import { pushQueueService } from './pushQueueService';
+import { isRegistered } from './walletInstallService';
+
+// How often the worker looks for cards whose code changed; well under the shortest period (30s)
+const REFRESH_CHECK_INTERVAL_MS = 5000;
+// Passes queued per push batch, so a large card doesn't build one huge query
+const REFRESH_BATCH_SIZE = 500;
+
+/**
+ * Keeps rotating codes on Apple Wallet passes current
+ * Wallet only shows the barcode baked into the .pkpass, so every time a card's code changes its
+ * installed passes are marked as changed and pushed, and Wallet fetches a pass with the new code.
+ * Scans accept the previous code too, so a refresh only has to land within one period.
+ * Google Wallet generates the codes on the device and needs none of this.
+ */
+class RotatingCodeService {
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private refreshing = false;
+  // Time step each card's passes were last refreshed for
+  private refreshedSteps = new Map<number, number>();
+
+  /**
+   * Start the background worker; after a restart every rotating card is refreshed once
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.refreshDueCards(), REFRESH_CHECK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Refresh the passes of every rotating card whose code changed since its last refresh
+   */
+  async refreshDueCards(now: Date = new Date()): Promise<void> {
+    if (this.refreshing) {
+      return;
+    }
+    this.refreshing = true;
+    try {
+      const cards = await db.query.loyaltyCards.findMany({
+        where: and(
+          eq(loyaltyCards.isActive, true),
+          sql`(${loyaltyCards.design}->'rotatingCode'->>'enabled')::boolean`
+        ),
+      });
+
+      for (const card of cards) {
+        const period = getRotatingCodePeriod(card);
+        if (!period) {
+          continue;
+        }
+        const step = Math.floor(now.getTime() / 1000 / period);
+        if (this.refreshedSteps.get(card.id) === step) {
+          continue;
+        }
+        this.refreshedSteps.set(card.id, step);
+        await this.refreshCard(card.id);
+      }
+    } catch (error: any) {
+      console.error('❌ Rotating code worker error:', error.message);
+    } finally {
+      this.refreshing = false;
+    }
+  }
+
+  /**
+   * Mark the card's installed, usable passes as changed and queue a push to each
+   */
+  private async refreshCard(cardId: number): Promise<void> {
+    const passes = await db.update(customerPasses)
+      .set(passVersionBump())
+      .where(and(
+        eq(customerPasses.cardId, cardId),
+        eq(customerPasses.isActive, true),
+        isRegistered
+      ))
+      .returning({ serialNumber: customerPasses.serialNumber });
+
+    for (let i = 0; i < passes.length; i += REFRESH_BATCH_SIZE) {
+      await pushQueueService.enqueueMany(passes.slice(i, i + REFRESH_BATCH_SIZE).map(pass => pass.serialNumber));
+    }
+  }
+}
+
+// Export a singleton instance
+export const rotatingCodeService = new RotatingCodeService();
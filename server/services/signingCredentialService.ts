@@ -0,0 +1,339 @@
+import crypto from 'crypto';
+import forge from 'node-forge';
+import { db } from '@db';
+import { passSigningCredentials, type PassSigningCredential, type CustomerPass } from '@db/schema';
+import { eq } from 'drizzle-orm';
+import { checkSigningCredentials, credentialsFromEnv, PassSigningError, type SigningIdentity } from './passSigner';
+
+/**
+ * The pass type a pass is issued under, and the credentials that sign it
+ */
+export interface PassType {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  // A business's own credentials; undefined for the platform certificate loaded by passSigner
+  identity?: SigningIdentity;
+}
+
+/**
+ * What the dashboard shows about a business's uploaded credentials (never the key)
+ */
+export interface SigningCredentialSummary {
+  passTypeIdentifier: string;
+  teamIdentifier: string;
+  subject: string;
+  expiresAt: Date;
+  updatedAt: Date | null;
+}
+
+interface CachedCredential {
+  // updatedAt of the row the entry was decrypted from, so an upload elsewhere is picked up
+  version: number;
+  identity: SigningIdentity;
+  certificatePem: string;
+  privateKeyPem: string;
+}
+
+const ENCRYPTION_FORMAT = 'v1';
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new PassSigningError('NOT_CONFIGURED', 'CREDENTIALS_ENCRYPTION_KEY is not set, so business signing keys can\'t be stored or read');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * AES-256-GCM, bound to the pass type so a key can't be moved to another business's row
+ * Format: v1.<iv>.<auth tag>.<ciphertext>, each base64url
+ */
+function encryptPrivateKey(privateKeyPem: string, passTypeIdentifier: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', getEncryptionKey(), iv);
+  cipher.setAAD(Buffer.from(passTypeIdentifier));
+  const ciphertext = Buffer.concat([cipher.update(privateKeyPem, 'utf8'), cipher.final()]);
+  return [ENCRYPTION_FORMAT, iv, cipher.getAuthTag(), ciphertext]
+    .map(part => typeof part === 'string' ? part : part.toString('base64url'))
+    .join('.');
+}
+
+function decryptPrivateKey(payload: string, passTypeIdentifier: string): string {
+  const [format, iv, tag, ciphertext] = payload.split('.');
+  if (format !== ENCRYPTION_FORMAT || !ciphertext) {
+    throw new PassSigningError('INVALID_KEY', `Stored private key for ${passTypeIdentifier} is in an unknown format`);
+  }
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', getEncryptionKey(), Buffer.from(iv, 'base64url'));
+    decipher.setAAD(Buffer.from(passTypeIdentifier));
+    decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64url')), decipher.final()]).toString('utf8');
+  } catch {
+    throw new PassSigningError('INVALID_KEY', `Stored private key for ${passTypeIdentifier} could not be decrypted. Was CREDENTIALS_ENCRYPTION_KEY changed?`);
+  }
+}
+
+/**
+ * The pass type identifier a customer pass carries in Wallet
+ * Wallet web service requests name it, and must match for the pass to be found
+ */
+export function getIssuedPassTypeIdentifier(pass: Pick<CustomerPass, 'passTypeIdentifier'>): string | undefined {
+  return pass.passTypeIdentifier ?? process.env.APPLE_PASS_TYPE_ID;
+}
+
+/**
+ * Read the certificate, private key and any CA certificates out of a .p12 export
+ */
+export function parseP12(p12: Buffer, password: string): {
+  certificate: forge.pki.Certificate;
+  privateKey: forge.pki.rsa.PrivateKey;
+  caCertificates: forge.pki.Certificate[];
+} {
+  let pkcs12: forge.pkcs12.Pkcs12Pfx;
+  try {
+    const asn1 = forge.asn1.fromDer(forge.util.createBuffer(p12.toString('binary')));
+    pkcs12 = forge.pkcs12.pkcs12FromAsn1(asn1, false, password);
+  } catch (error: any) {
+    const message = /MAC could not be verified|Invalid password/i.test(error.message)
+      ? 'Could not open the .p12 file: the password is wrong'
+      : `Could not open the .p12 file: ${error.message}`;
+    throw new PassSigningError('INVALID_CERTIFICATE', message);
+  }
+
+  const keyBags = [
+    ...(pkcs12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] || []),
+    ...(pkcs12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] || []),
+  ];
+  const privateKey = keyBags.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!privateKey) {
+    throw new PassSigningError('INVALID_KEY', 'The .p12 file has no private key. Export the certificate together with its key from Keychain Access.');
+  }
+
+  // The signing certificate is the one holding the key's public half; the rest are CAs
+  const certificates = (pkcs12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] || [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+  const certificate = certificates.find(cert => {
+    const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+    return publicKey.n?.compareTo(privateKey.n) === 0;
+  });
+  if (!certificate) {
+    throw new PassSigningError('KEY_MISMATCH', 'The .p12 file has no certificate for its private key');
+  }
+
+  return {
+    certificate,
+    privateKey,
+    caCertificates: certificates.filter(cert => cert !== certificate),
+  };
+}
+
+/**
+ * Pass type identifiers and signing credentials for businesses with their own Apple developer account
+ * Everyone else issues passes under the platform's APPLE_PASS_TYPE_ID.
+ * Private keys are stored encrypted and decrypted once per upload, then cached in memory.
+ */
+class SigningCredentialService {
+  private cache = new Map<string, CachedCredential>();
+
+  /**
+   * The platform pass type from the environment, signed by passSigner
+   *
+   * @throws PassSigningError when APPLE_PASS_TYPE_ID or APPLE_TEAM_ID is missing
+   */
+  getPlatformPassType(): PassType {
+    if (!process.env.APPLE_PASS_TYPE_ID || !process.env.APPLE_TEAM_ID) {
+      throw new PassSigningError('NOT_CONFIGURED', 'Platform pass type is not configured (APPLE_PASS_TYPE_ID, APPLE_TEAM_ID)');
+    }
+    return {
+      passTypeIdentifier: process.env.APPLE_PASS_TYPE_ID,
+      teamIdentifier: process.env.APPLE_TEAM_ID,
+    };
+  }
+
+  /**
+   * The business's own pass type identifier, or null if it uses the platform's
+   * Stored on new customer passes so they keep their pass type if the business changes credentials
+   */
+  async getBusinessPassTypeIdentifier(businessId: number | null | undefined): Promise<string | null> {
+    if (!businessId) {
+      return null;
+    }
+    const credential = await db.query.passSigningCredentials.findFirst({
+      where: eq(passSigningCredentials.businessId, businessId),
+      columns: { passTypeIdentifier: true },
+    });
+    return credential?.passTypeIdentifier ?? null;
+  }
+
+  /**
+   * The pass type and credentials for a pass type identifier
+   * null (or the platform identifier) is the platform pass type
+   *
+   * @throws PassSigningError if the credentials are missing or can't be used
+   */
+  async getPassType(passTypeIdentifier: string | null): Promise<PassType> {
+    if (!passTypeIdentifier || passTypeIdentifier === process.env.APPLE_PASS_TYPE_ID) {
+      return this.getPlatformPassType();
+    }
+
+    const cached = await this.load(passTypeIdentifier);
+    if (!cached) {
+      throw new PassSigningError('NOT_CONFIGURED', `No signing credentials are stored for pass type ${passTypeIdentifier}`);
+    }
+    return {
+      passTypeIdentifier,
+      teamIdentifier: cached.identity.teamIdentifier!,
+      identity: cached.identity,
+    };
+  }
+
+  /**
+   * Certificate and key for sending APNs pushes for a business pass type
+   * Wallet pushes authenticate with the Pass Type ID certificate itself.
+   * Returns null for unknown pass types; version changes whenever the credentials are replaced.
+   */
+  async getApnsCredentials(passTypeIdentifier: string): Promise<{ cert: string; key: string; version: number } | null> {
+    const cached = await this.load(passTypeIdentifier);
+    return cached ? { cert: cached.certificatePem, key: cached.privateKeyPem, version: cached.version } : null;
+  }
+
+  async getSummary(businessId: number): Promise<SigningCredentialSummary | null> {
+    const credential = await db.query.passSigningCredentials.findFirst({
+      where: eq(passSigningCredentials.businessId, businessId),
+    });
+    return credential ? this.summarize(credential) : null;
+  }
+
+  /**
+   * Check a .p12 export and store it as the business's signing credentials
+   * Collects every problem like checkSigningCredentials; nothing is saved unless there are none.
+   * Passes already issued keep the pass type they were issued under until they are reissued.
+   */
+  async saveP12(
+    businessId: number,
+    p12: Buffer,
+    password: string
+  ): Promise<{ summary?: SigningCredentialSummary; errors: PassSigningError[] }> {
+    let parsed: ReturnType<typeof parseP12>;
+    try {
+      getEncryptionKey();
+      parsed = parseP12(p12, password);
+    } catch (error) {
+      if (error instanceof PassSigningError) {
+        return { errors: [error] };
+      }
+      throw error;
+    }
+
+    // Keychain exports can include the WWDR intermediate; otherwise use the platform's
+    const wwdr = parsed.caCertificates.find(cert => cert.issued(parsed.certificate));
+    const certificatePem = forge.pki.certificateToPem(parsed.certificate);
+    const privateKeyPem = forge.pki.privateKeyInfoToPem(forge.pki.wrapRsaPrivateKey(forge.pki.privateKeyToAsn1(parsed.privateKey)));
+    const wwdrPem = wwdr ? forge.pki.certificateToPem(wwdr) : null;
+
+    const { identity, errors } = checkSigningCredentials({
+      signingCert: certificatePem,
+      signingKey: privateKeyPem,
+      wwdrCert: wwdrPem ?? credentialsFromEnv().wwdrCert,
+    });
+    if (!identity) {
+      return { errors };
+    }
+
+    const { passTypeIdentifier, teamIdentifier } = identity;
+    if (!passTypeIdentifier || !teamIdentifier) {
+      return { errors: [new PassSigningError('INVALID_CERTIFICATE', 'This is not a Pass Type ID certificate (its subject has no pass type identifier or team ID)')] };
+    }
+    if (passTypeIdentifier === process.env.APPLE_PASS_TYPE_ID) {
+      return { errors: [new PassSigningError('PASS_TYPE_MISMATCH', `${passTypeIdentifier} is the platform pass type and can't be used by a single business`)] };
+    }
+    const owner = await db.query.passSigningCredentials.findFirst({
+      where: eq(passSigningCredentials.passTypeIdentifier, passTypeIdentifier),
+    });
+    if (owner && owner.businessId !== businessId) {
+      return { errors: [new PassSigningError('PASS_TYPE_MISMATCH', `${passTypeIdentifier} is already used by another business`)] };
+    }
+
+    const values = {
+      passTypeIdentifier,
+      teamIdentifier,
+      certificate: certificatePem,
+      wwdrCertificate: wwdrPem,
+      encryptedPrivateKey: encryptPrivateKey(privateKeyPem, passTypeIdentifier),
+      expiresAt: identity.signingCert.validity.notAfter,
+      updatedAt: new Date(),
+    };
+    const [credential] = await db.insert(passSigningCredentials)
+      .values({ businessId, ...values })
+      .onConflictDoUpdate({ target: passSigningCredentials.businessId, set: values })
+      .returning();
+
+    this.cache.delete(passTypeIdentifier);
+    console.log(`✅ Stored signing credentials for business ${businessId} (${passTypeIdentifier})`);
+    return { summary: this.summarize(credential), errors: [] };
+  }
+
+  /**
+   * Remove a business's credentials; new passes go back to the platform pass type
+   * Passes issued under the removed pass type can't be updated until they are reissued
+   */
+  async remove(businessId: number): Promise<boolean> {
+    const [removed] = await db.delete(passSigningCredentials)
+      .where(eq(passSigningCredentials.businessId, businessId))
+      .returning();
+    if (removed) {
+      this.cache.delete(removed.passTypeIdentifier);
+      console.log(`✅ Removed signing credentials for business ${businessId} (${removed.passTypeIdentifier})`);
+    }
+    return !!removed;
+  }
+
+  private summarize(credential: PassSigningCredential): SigningCredentialSummary {
+    const certificate = forge.pki.certificateFromPem(credential.certificate);
+    return {
+      passTypeIdentifier: credential.passTypeIdentifier,
+      teamIdentifier: credential.teamIdentifier,
+      subject: certificate.subject.getField('CN')?.value || credential.passTypeIdentifier,
+      expiresAt: credential.expiresAt,
+      updatedAt: credential.updatedAt,
+    };
+  }
+
+  /**
+   * Decrypt and check a pass type's stored credentials, reusing the cached copy while the row is unchanged
+   */
+  private async load(passTypeIdentifier: string): Promise<CachedCredential | null> {
+    const credential = await db.query.passSigningCredentials.findFirst({
+      where: eq(passSigningCredentials.passTypeIdentifier, passTypeIdentifier),
+    });
+    if (!credential) {
+      this.cache.delete(passTypeIdentifier);
+      return null;
+    }
+
+    const version = credential.updatedAt?.getTime() ?? 0;
+    const cached = this.cache.get(passTypeIdentifier);
+    if (cached && cached.version === version) {
+      return cached;
+    }
+
+    const privateKeyPem = decryptPrivateKey(credential.encryptedPrivateKey, passTypeIdentifier);
+    // Dates are checked on every signature by passSigner, so an expired certificate still loads
+    const { identity, errors } = checkSigningCredentials({
+      signingCert: credential.certificate,
+      signingKey: privateKeyPem,
+      wwdrCert: credential.wwdrCertificate ?? credentialsFromEnv().wwdrCert,
+    }, credential.expiresAt);
+    if (!identity) {
+      throw errors[0];
+    }
+
+    const entry = { version, identity, certificatePem: credential.certificate, privateKeyPem };
+    this.cache.set(passTypeIdentifier, entry);
+    return entry;
+  }
+}
+
+// Export a singleton instance
+export const signingCredentialService = new SigningCredentialService();
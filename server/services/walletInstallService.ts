@@ -0,0 +1,185 @@
+import { db } from '@db';
+import { customerPasses, deviceRegistrations, loyaltyCards, walletInstallEvents } from '@db/schema';
+import { eq, and, gte, inArray, isNull, count, sql, type SQL } from 'drizzle-orm';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * How far each pass got from download to Wallet
+ * Counts are of passes, so a pass on several devices counts once
+ */
+export interface InstallMetrics {
+  issued: number;
+  downloaded: number;
+  // Added to Wallet at least once
+  added: number;
+  // Still in Wallet on at least one device
+  installed: number;
+  // Share of added passes no longer on any device
+  uninstallRate: number | null;
+  medianSecondsToInstall: number | null;
+}
+
+export interface CardInstallMetrics extends InstallMetrics {
+  cardId: number;
+  cardName: string;
+}
+
+export interface InstallTimelineDay {
+  date: string;
+  installs: number;
+  uninstalls: number;
+  // Devices holding a pass at the end of the day
+  activeInstalls: number;
+}
+
+// Whether any device currently has the pass, as a condition on customerPasses
+export const isRegistered = sql`exists (select 1 from ${deviceRegistrations} where ${deviceRegistrations.serialNumber} = ${customerPasses.serialNumber})`;
+
+function metricsColumns() {
+  return {
+    issued: count(),
+    downloaded: count(customerPasses.firstDownloadedAt),
+    // Passes already in Wallet before install tracking have a registration but no firstInstalledAt
+    added: sql<number>`count(*) filter (where ${customerPasses.firstInstalledAt} is not null or ${isRegistered})`.mapWith(Number),
+    installed: sql<number>`count(*) filter (where ${isRegistered})`.mapWith(Number),
+    medianSecondsToInstall: sql<number | null>`percentile_cont(0.5) within group (order by extract(epoch from ${customerPasses.firstInstalledAt} - ${customerPasses.createdAt}))`.mapWith(Number),
+  };
+}
+
+function toInstallMetrics<T extends Omit<InstallMetrics, 'uninstallRate'>>(row: T): T & { uninstallRate: number | null } {
+  return {
+    ...row,
+    uninstallRate: row.added > 0 ? (row.added - row.installed) / row.added : null,
+  };
+}
+
+function businessPassCondition(businessId: number, cardId?: number): SQL | undefined {
+  return and(
+    eq(loyaltyCards.businessId, businessId),
+    cardId ? eq(customerPasses.cardId, cardId) : undefined
+  );
+}
+
+/**
+ * Service for tracking when passes are downloaded, added to and removed from Wallet
+ */
+class WalletInstallService {
+  /**
+   * Note the first download of each pass (a .pkpass or a bundle)
+   */
+  async recordDownload(serialNumbers: string[]): Promise<void> {
+    if (serialNumbers.length === 0) {
+      return;
+    }
+    await db.update(customerPasses)
+      .set({ firstDownloadedAt: new Date() })
+      .where(and(
+        inArray(customerPasses.serialNumber, serialNumbers),
+        isNull(customerPasses.firstDownloadedAt)
+      ));
+  }
+
+  /**
+   * A device registered for a pass, i.e. the pass was added to its Wallet
+   */
+  async recordInstall(serialNumber: string, deviceLibraryIdentifier: string): Promise<void> {
+    await db.insert(walletInstallEvents).values({ serialNumber, deviceLibraryIdentifier, event: 'installed' });
+    await db.update(customerPasses)
+      .set({ firstInstalledAt: new Date() })
+      .where(and(
+        eq(customerPasses.serialNumber, serialNumber),
+        isNull(customerPasses.firstInstalledAt)
+      ));
+  }
+
+  /**
+   * A device's registration was removed, by Wallet or because APNs no longer knows the device
+   */
+  async recordUninstall(serialNumber: string, deviceLibraryIdentifier: string): Promise<void> {
+    await db.insert(walletInstallEvents).values({ serialNumber, deviceLibraryIdentifier, event: 'uninstalled' });
+  }
+
+  /**
+   * Install metrics for the whole business and for each of its cards
+   */
+  async getMetrics(businessId: number): Promise<{ totals: InstallMetrics; cards: CardInstallMetrics[] }> {
+    const [totals] = await db
+      .select(metricsColumns())
+      .from(customerPasses)
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(businessPassCondition(businessId));
+
+    const cards = await db
+      .select({
+        cardId: loyaltyCards.id,
+        cardName: loyaltyCards.name,
+        ...metricsColumns(),
+      })
+      .from(customerPasses)
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(businessPassCondition(businessId))
+      .groupBy(loyaltyCards.id, loyaltyCards.name)
+      .orderBy(loyaltyCards.name);
+
+    return {
+      totals: toInstallMetrics(totals),
+      cards: cards.map(toInstallMetrics),
+    };
+  }
+
+  /**
+   * Daily installs and uninstalls over the last `days` days
+   * Active installs are counted back from today's registrations, so devices that added a pass
+   * before install events were recorded are included
+   */
+  async getTimeline(businessId: number, days: number, cardId?: number): Promise<InstallTimelineDay[]> {
+    const since = new Date(Date.now() - (days - 1) * DAY_MS);
+    since.setUTCHours(0, 0, 0, 0);
+
+    const day = sql<string>`date_trunc('day', ${walletInstallEvents.createdAt})::date::text`;
+    const events = await db
+      .select({
+        date: day,
+        event: walletInstallEvents.event,
+        count: count(),
+      })
+      .from(walletInstallEvents)
+      .innerJoin(customerPasses, eq(walletInstallEvents.serialNumber, customerPasses.serialNumber))
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(and(businessPassCondition(businessId, cardId), gte(walletInstallEvents.createdAt, since)))
+      .groupBy(day, walletInstallEvents.event);
+
+    const [current] = await db
+      .select({ count: count() })
+      .from(deviceRegistrations)
+      .innerJoin(customerPasses, eq(deviceRegistrations.serialNumber, customerPasses.serialNumber))
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(businessPassCondition(businessId, cardId));
+
+    const timeline: InstallTimelineDay[] = [];
+    let activeInstalls = current.count;
+    for (let i = days - 1; i >= 0; i--) {
+      const date = new Date(since.getTime() + i * DAY_MS).toISOString().slice(0, 10);
+      const installs = events.find(e => e.date === date && e.event === 'installed')?.count ?? 0;
+      const uninstalls = events.find(e => e.date === date && e.event === 'uninstalled')?.count ?? 0;
+      timeline.unshift({ date, installs, uninstalls, activeInstalls });
+      activeInstalls = Math.max(0, activeInstalls - installs + uninstalls);
+    }
+    return timeline;
+  }
+
+  /**
+   * Customers of the business with at least one pass currently in Wallet
+   */
+  async getInstalledCustomerIds(businessId: number): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ customerId: customerPasses.customerId })
+      .from(customerPasses)
+      .innerJoin(loyaltyCards, eq(customerPasses.cardId, loyaltyCards.id))
+      .where(and(businessPassCondition(businessId), isRegistered));
+    return rows.map(row => row.customerId);
+  }
+}
+
+export const walletInstallService = new WalletInstallService();
@@ -0,0 +1,128 @@
+import type { LoyaltyCard, Business, Customer, CustomerPass, Transaction } from '@db/schema';
+import { buildBarcodeMessage, getBarcodeFormat, getMemberNumberText, type RotatingCode } from './barcodeService';
+import { renderBarcode } from './passPreviewService';
+import { getPassStatus, type PassStatus } from './passLifecycleService';
+
+// Transactions listed on the page, newest first
+export const WEB_PASS_TRANSACTION_LIMIT = 10;
+
+/**
+ * What the web pass page shows: the same balance and barcode as the Wallet pass
+ */
+export interface WebPass {
+  serialNumber: string;
+  status: PassStatus;
+  statusMessage: string | null;
+  card: {
+    id: number;
+    name: string;
+    loyaltyType: string;
+    backgroundColor: string;
+    foregroundColor: string;
+    rewardDescription: string | null;
+  };
+  businessName: string;
+  memberName: string;
+  balance: number;
+  // Stamps towards a full card, or points towards the reward threshold; null for memberships
+  progress: { current: number; target: number } | null;
+  barcode: {
+    svg: string;
+    altText: string | null;
+    // Seconds until a rotating code changes; null for static codes
+    refreshSeconds: number | null;
+  } | null;
+  transactions: Array<Pick<Transaction, 'id' | 'type' | 'amount' | 'description' | 'createdAt'>>;
+}
+
+/**
+ * Why a pass can't be used, worded for the member rather than staff
+ */
+function getMemberStatusMessage(pass: CustomerPass, now: Date = new Date()): string | null {
+  switch (getPassStatus(pass, now)) {
+    case 'replaced':
+      return 'This card was replaced by a newer one. Use the link to your new card.';
+    case 'voided':
+      return 'This membership is no longer active. Please contact the business.';
+    case 'expired':
+      return `This card expired on ${pass.expiresAt!.toDateString()}`;
+    default:
+      return null;
+  }
+}
+
+export function buildWebPass(
+  pass: CustomerPass,
+  card: LoyaltyCard,
+  business: Business,
+  customer: Customer,
+  recentTransactions: Transaction[],
+  rotating: RotatingCode | null,
+  now: Date = new Date()
+): WebPass {
+  const design = card.design as any;
+  const loyaltyType = design.loyaltyType || 'stamps';
+  const balance = pass.currentBalance || 0;
+  const status = getPassStatus(pass, now);
+
+  let progress: WebPass['progress'] = null;
+  if (loyaltyType === 'stamps') {
+    progress = { current: balance, target: design.maxStamps || design.stamps || 10 };
+  } else if (loyaltyType === 'points' && design.rewardThreshold) {
+    progress = { current: Math.min(balance, design.rewardThreshold), target: design.rewardThreshold };
+  }
+
+  // Only usable passes get a code, as Wallet hides the barcode of voided passes
+  let barcode: WebPass['barcode'] = null;
+  if (status === 'active') {
+    barcode = {
+      svg: renderBarcode(getBarcodeFormat(card), buildBarcodeMessage(card.id, customer.id, pass.serialNumber, rotating, now)),
+      altText: getMemberNumberText(card, customer.id) || null,
+      refreshSeconds: rotating ? rotating.period - Math.floor(now.getTime() / 1000) % rotating.period : null,
+    };
+  }
+
+  return {
+    serialNumber: pass.serialNumber,
+    status,
+    statusMessage: getMemberStatusMessage(pass, now),
+    card: {
+      id: card.id,
+      name: card.name,
+      loyaltyType,
+      backgroundColor: design.backgroundColor || design.primaryColor || '#4F46E5',
+      foregroundColor: design.textColor || '#ffffff',
+      rewardDescription: design.rewardDescription || null,
+    },
+    businessName: business.name,
+    memberName: customer.name,
+    balance,
+    progress,
+    barcode,
+    transactions: recentTransactions.map(({ id, type, amount, description, createdAt }) => ({
+      id, type, amount, description, createdAt,
+    })),
+  };
+}
+
+/**
+ * Web app manifest so the page can be added to the home screen
+ * The start URL carries the auth token, so the installed app opens straight to the pass
+ */
+export function buildWebPassManifest(card: LoyaltyCard, business: Business, startUrl: string) {
+  const design = card.design as any;
+  const backgroundColor = design.backgroundColor || design.primaryColor || '#4F46E5';
+  return {
+    id: startUrl,
+    name: `${card.name} - ${business.name}`,
+    short_name: business.name,
+    start_url: startUrl,
+    scope: '/p/',
+    display: 'standalone',
+    background_color: backgroundColor,
+    theme_color: backgroundColor,
+    icons: [
+      { src: `/api/public/cards/${card.id}/logo.png`, sizes: '660x660', type: 'image/png', purpose: 'any' },
+    ],
+  };
+}